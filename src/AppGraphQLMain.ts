@@ -1,8 +1,20 @@
 import { AbstractApp, AppManager, Collection, CollectionHandler } from "@nodeknit/app-manager";
 import { GraphQLHelper } from './lib/GraphQLHelper';
-import type { IGraphQLModelConfig, GraphQLQueryHandler, GraphQLMutationHandler, GraphQLSubscriptionHandler } from './lib/types';
+import type { IGraphQLModelConfig, GraphQLQueryHandler, GraphQLMutationHandler, GraphQLSubscriptionHandler, RoleResolver, UserIdResolver, EnumValueNaming } from './lib/types';
 import { GQLModelHandler } from './handlers/GQLModelHandler.js';
 import { ApolloServer } from '@apollo/server';
+import { makeExecutableSchema } from '@graphql-tools/schema';
+import { PubSubEngine } from './lib/PubSub';
+import { SubscriptionServer, SubscriptionRequest } from './lib/SubscriptionServer';
+import { LoaderRegistry } from './lib/LoaderRegistry';
+import { TransactionManager, TransactionMode } from './lib/TransactionManager';
+import { QueryLimitsOptions, createQueryLimitsPlugin, analyzeOperation, checkQueryLimits } from './utils/queryLimits';
+import { ErrorFormatterOptions, createErrorFormatter, resolveErrorFormatterOptions } from './utils/formatError';
+import { executeGraphQLRequest } from './utils/graphqlRequest';
+import type { GraphQLFormattedError, GraphQLScalarType } from 'graphql';
+import type { GraphQLScalarDefinition } from './lib/ScalarRegistry';
+import { SchemaValidationError, SchemaValidationPolicy, formatSchemaDiagnostics } from './lib/SchemaValidator';
+import type { Server as HttpServer } from 'http';
 import { readFileSync } from 'fs';
 import { join } from 'path';
 import { playgroundPath } from './index';
@@ -12,6 +24,87 @@ export interface GraphQLAppConfig {
     playground?: boolean;
     introspection?: boolean;
     enableMutations?: boolean;
+    /**
+     * Load associations requested in the query with Sequelize `include`
+     * and select only requested columns (lookahead), instead of per-field batching
+     */
+    eagerLoading?: boolean;
+    /**
+     * Maximum depth of eager loaded associations (default 3)
+     */
+    maxIncludeDepth?: number;
+    /**
+     * Enable graphql-ws transport for subscriptions (default false).
+     * Changes made outside of generated mutations are published through Sequelize hooks only when enabled.
+     */
+    subscriptions?: boolean;
+    /**
+     * HTTP server accepting WebSocket upgrade requests of subscriptions, required with `subscriptions`
+     */
+    subscriptionsServer?: HttpServer;
+    /**
+     * WebSocket path for subscriptions, defaults to `endpoint`
+     */
+    subscriptionsEndpoint?: string;
+    /**
+     * Authenticate subscription connection: read `request.connectionParams` (e.g. token)
+     * and set `request.user` for authHandler and role resolvers. Returning false rejects the connection.
+     */
+    onSubscriptionConnect?: (request: SubscriptionRequest) => boolean | void | Promise<boolean | void>;
+    /**
+     * Extra fields of the subscription operation context
+     */
+    subscriptionContext?: (request: SubscriptionRequest) => Record<string, any> | Promise<Record<string, any>>;
+    /**
+     * PubSub engine for subscriptions, in-memory by default
+     */
+    pubsub?: PubSubEngine;
+    /**
+     * Depth, complexity, alias and root field limits checked before execution
+     */
+    queryLimits?: QueryLimitsOptions;
+    /**
+     * Extract roles of the current user for `access` and field `auth` rules
+     * (default: `req.user.roles` or `req.user.role`)
+     */
+    roleResolver?: RoleResolver;
+    /**
+     * Extract id of the current user for `owner` access rules (default: `req.user.id`)
+     */
+    userIdResolver?: UserIdResolver;
+    /**
+     * Keep single `<Model>Input` for create and update instead of `Create<Model>Input`/`Update<Model>Input`
+     */
+    legacyInputTypes?: boolean;
+    /**
+     * Name of GraphQL enum value for database value of ENUM column
+     * (default: invalid characters replaced with "_")
+     */
+    enumValueNaming?: EnumValueNaming;
+    /**
+     * Wrap each mutation ('mutation') or each operation ('request') in a Sequelize transaction
+     * available as `context.transaction` (default 'none'). Data of a rolled back mutation is returned as null.
+     */
+    transactions?: TransactionMode;
+    /**
+     * Options of wrapping transactions, e.g. `{ isolationLevel }`
+     */
+    transactionOptions?: Record<string, any>;
+    /**
+     * Propagate the operation transaction to Sequelize calls without `transaction` option through CLS
+     * (default false). Registers a process-wide namespace unless the application already set one with `Sequelize.useCLS`.
+     */
+    transactionCLS?: boolean;
+    /**
+     * Error formatting: masking of internal errors and stack traces (masked when NODE_ENV is production)
+     * and custom formatter
+     */
+    errors?: ErrorFormatterOptions;
+    /**
+     * Check combined SDL and resolvers of all apps for conflicts before the schema is built:
+     * 'warn' (default) logs diagnostics, 'fail' stops mounting with SchemaValidationError, 'off' skips the check
+     */
+    schemaValidation?: SchemaValidationPolicy;
 }
 
 export class AppGraphQL extends AbstractApp {
@@ -21,6 +114,9 @@ export class AppGraphQL extends AbstractApp {
     private graphqlHelper: GraphQLHelper;
     private config: GraphQLAppConfig;
     private apolloServer: ApolloServer | null = null;
+    private subscriptionServer: SubscriptionServer | null = null;
+    private transactionManager: TransactionManager;
+    private formatError: (formattedError: GraphQLFormattedError, error: unknown) => GraphQLFormattedError;
 
     models: any[] = [];
 
@@ -37,6 +133,12 @@ export class AppGraphQL extends AbstractApp {
     @Collection
     customSubscriptions: GraphQLSubscriptionHandler[] = [];
 
+    /**
+     * Custom scalars (GraphQLScalarType or `{ scalar, sequelizeTypes }` to map Sequelize data types to it)
+     */
+    @Collection
+    customScalars: Array<GraphQLScalarType | GraphQLScalarDefinition> = [];
+
     whiteListedModels: string[] = [];
 
 
@@ -48,14 +150,38 @@ export class AppGraphQL extends AbstractApp {
 
     constructor(appManager: AppManager, config: GraphQLAppConfig = {}) {
         super(appManager);
-        this.graphqlHelper = new GraphQLHelper(appManager.sequelize);
         this.config = {
             endpoint: '/graphql',
             playground: true,
             introspection: true,
             enableMutations: false,
+            subscriptions: false,
+            eagerLoading: false,
+            maxIncludeDepth: 3,
+            transactions: 'none',
+            schemaValidation: 'warn',
             ...config
         };
+        this.graphqlHelper = new GraphQLHelper(appManager.sequelize, {
+            eagerLoading: this.config.eagerLoading,
+            maxIncludeDepth: this.config.maxIncludeDepth,
+            roleResolver: this.config.roleResolver,
+            userIdResolver: this.config.userIdResolver,
+            legacyInputTypes: this.config.legacyInputTypes,
+            enumValueNaming: this.config.enumValueNaming
+        });
+
+        if (this.config.pubsub) {
+            this.graphqlHelper.setPubSub(this.config.pubsub);
+        }
+
+        this.formatError = createErrorFormatter(this.config.errors);
+
+        this.transactionManager = new TransactionManager(appManager.sequelize, {
+            mode: this.config.transactions,
+            transactionOptions: this.config.transactionOptions,
+            cls: this.config.transactionCLS
+        });
 
         // Инициализируем handler с ссылкой на себя
         this.gqlModelHandler = new GQLModelHandler(this);
@@ -64,27 +190,46 @@ export class AppGraphQL extends AbstractApp {
     async mount(): Promise<void> {
         console.log('🚀 GraphQL App mounting...');
 
+        // WebSocket транспорт подписок нельзя подключить без HTTP сервера
+        if (this.config.subscriptions && !this.config.subscriptionsServer) {
+            throw new Error('Subscriptions are enabled but no HTTP server is configured: set subscriptionsServer in GraphQL app config');
+        }
+
         // Process own collections
+        this.processCustomScalars();
         this.processModels();
         this.processCustomResolvers();
         this.processCustomTypes();
+        this.processWhiteList();
+        this.processBlackList();
+
+        // Типы всех приложений регистрируются до операций; операции с аргументами неизвестных типов не попадают в схему
+        this.processAllAppTypes();
+
         this.processCustomQueries();
         this.processCustomMutations();
         this.processCustomSubscriptions();
-        this.processWhiteList();
-        this.processBlackList();
 
-        // Process collections from ALL apps
-        await this.processAllAppCollections();
+        // Process operations from ALL apps
+        this.processAllAppOperations();
+
+        this.validateSchema();
 
         // Generate schema
         const schemaData = this.graphqlHelper.getSchema();
+        const schema = makeExecutableSchema({
+            typeDefs: schemaData.typeDefs,
+            resolvers: schemaData.resolvers as any
+        });
 
         // Create Apollo Server
+        const getFieldCost = (typeName: string, fieldName: string) => this.graphqlHelper.getFieldCost(typeName, fieldName);
         this.apolloServer = new ApolloServer({
-            typeDefs: schemaData.typeDefs,
-            resolvers: schemaData.resolvers as any,
+            schema,
             introspection: this.config.introspection,
+            plugins: this.config.queryLimits ? [createQueryLimitsPlugin(this.config.queryLimits, getFieldCost)] : [],
+            formatError: this.formatError,
+            includeStacktraceInErrorResponses: resolveErrorFormatterOptions(this.config.errors).includeStacktrace,
         });
 
         // Start Apollo Server
@@ -104,57 +249,29 @@ export class AppGraphQL extends AbstractApp {
 
         // Добавляем POST обработчик для GraphQL запросов
         this.appManager.app.post(this.config.endpoint!, async (req: any, res: any) => {
-            try {
-                const { query, variables, operationName } = req.body;
-                
-                if (!query) {
-                    return res.status(400).json({ error: 'Query is required' });
-                }
+            // Создаем контекст с информацией о пользователе
+            const context: Record<string, any> = {
+                user: req.user || null,
+                req,
+                res,
+                pubsub: this.graphqlHelper.getPubSub(),
+                loaders: new LoaderRegistry()
+            };
+
+            const response = await executeGraphQLRequest({
+                server: this.apolloServer!,
+                transactionManager: this.transactionManager,
+                formatError: this.formatError
+            }, req.body, context);
+
+            res.status(response.status).json(response.body);
+        });
 
-                // Создаем контекст с информацией о пользователе
-                const context = {
-                    user: req.user || null,
-                    req,
-                    res
-                };
-
-                const response = await this.apolloServer!.executeOperation({
-                    query,
-                    variables: variables || {},
-                    operationName: operationName || undefined,
-                }, {
-                    contextValue: context
-                });
-
-                // Обработка ответа от Apollo Server
-                if (response.body.kind === 'single') {
-                    const result = response.body.singleResult;
-                    
-                    // Возвращаем результат в формате, ожидаемом GraphQL Playground
-                    const graphqlResponse: any = {};
-                    
-                    if (result.data !== undefined) {
-                        graphqlResponse.data = result.data;
-                    }
-                    
-                    if (result.errors && result.errors.length > 0) {
-                        graphqlResponse.errors = result.errors;
-                    }
-                    
-                    return res.json(graphqlResponse);
-                } else {
-                    // Для других типов ответов
-                    return res.json(response.body);
-                }
-                
-            } catch (error) {
-                console.error('GraphQL execution error:', error);
-                res.status(500).json({ 
-                    error: 'Internal server error',
-                    details: (error as Error).message 
-                });
-            }
-        });        console.log(`✅ GraphQL endpoints available:`);
+        if (this.config.subscriptions) {
+            this.mountSubscriptions(schema);
+        }
+
+        console.log(`✅ GraphQL endpoints available:`);
         console.log(`   📊 Apollo GraphQL: ${this.config.endpoint}`);
         console.log(`   🎮 Local GraphQL Playground: http://localhost:${process.env.PORT || 17280}${this.config.endpoint}`);
         console.log(`   📋 Schema: ${this.config.endpoint}/schema`);
@@ -177,12 +294,52 @@ export class AppGraphQL extends AbstractApp {
     async unmount(): Promise<void> {
         console.log('GraphQL App unmounting...');
 
+        if (this.subscriptionServer) {
+            await this.subscriptionServer.close();
+            this.subscriptionServer = null;
+            console.log('Subscription server stopped');
+        }
+
         if (this.apolloServer) {
             await this.apolloServer.stop();
             console.log('Apollo Server stopped');
         }
     }
 
+    private mountSubscriptions(schema: any): void {
+        const path = this.config.subscriptionsEndpoint || this.config.endpoint!;
+        this.graphqlHelper.enablePublishHooks();
+
+        this.subscriptionServer = new SubscriptionServer({
+            schema,
+            path,
+            onConnect: this.config.onSubscriptionConnect,
+            context: async (request) => ({
+                user: request.user || null,
+                req: request,
+                connectionParams: request.connectionParams,
+                pubsub: this.graphqlHelper.getPubSub(),
+                // Контекст подписки живет долго, кэш загрузчиков устарел бы между событиями
+                loaders: new LoaderRegistry({ cache: false }),
+                ...(this.config.subscriptionContext ? await this.config.subscriptionContext(request) : {})
+            }),
+            formatError: this.formatError,
+            validateOperation: (document, operationName, variables) => {
+                const limits = this.config.queryLimits;
+                if (!limits) {
+                    return null;
+                }
+
+                const cost = analyzeOperation(schema, document, operationName, variables, limits,
+                    (typeName, fieldName) => this.graphqlHelper.getFieldCost(typeName, fieldName));
+                return cost ? checkQueryLimits(cost, limits) : null;
+            }
+        });
+
+        this.subscriptionServer.attach(this.config.subscriptionsServer!);
+        console.log(`   📡 Subscriptions (graphql-ws): ${path}`);
+    }
+
     private processModels(): void {
         console.log(`📋 Processing ${this.models.length} models for GraphQL schema...`);
 
@@ -202,7 +359,7 @@ export class AppGraphQL extends AbstractApp {
 
             for (const resolver of this.customResolvers) {
                 try {
-                    this.graphqlHelper.addResolver(resolver);
+                    this.graphqlHelper.addResolver(resolver, this.appId);
                     console.log(`   ✅ Added custom resolver`);
                 } catch (error) {
                     console.error(`   ❌ Error adding custom resolver:`, error);
@@ -217,7 +374,7 @@ export class AppGraphQL extends AbstractApp {
 
             for (const type of this.customTypes) {
                 try {
-                    this.graphqlHelper.addType(type);
+                    this.graphqlHelper.addType(type, this.appId);
                     console.log(`   ✅ Added custom type`);
                 } catch (error) {
                     console.error(`   ❌ Error adding custom type:`, error);
@@ -226,13 +383,28 @@ export class AppGraphQL extends AbstractApp {
         }
     }
 
+    private processCustomScalars(): void {
+        if (this.customScalars.length > 0) {
+            console.log(`🔣 Processing ${this.customScalars.length} custom scalars...`);
+
+            for (const scalar of this.customScalars) {
+                try {
+                    this.graphqlHelper.addScalar(scalar);
+                    console.log(`   ✅ Added custom scalar: ${getScalarName(scalar)}`);
+                } catch (error) {
+                    console.error(`   ❌ Error adding custom scalar:`, error);
+                }
+            }
+        }
+    }
+
     private processCustomQueries(): void {
         if (this.customQueries.length > 0) {
             console.log(`🔍 Processing ${this.customQueries.length} custom queries...`);
 
             for (const query of this.customQueries) {
                 try {
-                    this.graphqlHelper.addQuery(query);
+                    this.graphqlHelper.addQuery(query, this.appId);
                     console.log(`   ✅ Added custom query: ${query.name || 'unnamed'}`);
                 } catch (error) {
                     console.error(`   ❌ Error adding custom query:`, error);
@@ -247,7 +419,7 @@ export class AppGraphQL extends AbstractApp {
 
             for (const mutation of this.customMutations) {
                 try {
-                    this.graphqlHelper.addMutation(mutation);
+                    this.graphqlHelper.addMutation(mutation, this.appId);
                     console.log(`   ✅ Added custom mutation: ${mutation.name || 'unnamed'}`);
                 } catch (error) {
                     console.error(`   ❌ Error adding custom mutation:`, error);
@@ -262,7 +434,7 @@ export class AppGraphQL extends AbstractApp {
 
             for (const subscription of this.customSubscriptions) {
                 try {
-                    this.graphqlHelper.addSubscription(subscription);
+                    this.graphqlHelper.addSubscription(subscription, this.appId);
                     console.log(`   ✅ Added custom subscription: ${subscription.name || 'unnamed'}`);
                 } catch (error) {
                     console.error(`   ❌ Error adding custom subscription:`, error);
@@ -293,23 +465,65 @@ export class AppGraphQL extends AbstractApp {
         }
     }
 
-    private async processAllAppCollections(): Promise<void> {
-        console.log('🔍 Processing collections from all apps...');
-
-        // Get collections from AppManager
+    /**
+     * Collections of all apps, empty when AppManager has no collection storage
+     */
+    private getAllAppCollection(name: string): any[] {
         const collectionStorage = (this.appManager as any).collectionStorage;
         if (!collectionStorage) {
+            return [];
+        }
+
+        return collectionStorage.collections.get(name) || [];
+    }
+
+    private processAllAppTypes(): void {
+        console.log('🔍 Processing types from all apps...');
+
+        if (!(this.appManager as any).collectionStorage) {
             console.log('⚠️ CollectionStorage not found in AppManager');
             return;
         }
 
+        // Process customScalars from all apps
+        const customScalars = this.getAllAppCollection('customScalars');
+        if (customScalars.length > 0) {
+            console.log(`🔣 Processing ${customScalars.length} custom scalars from all apps...`);
+            for (const scalarItem of customScalars) {
+                try {
+                    this.graphqlHelper.addScalar(scalarItem.item);
+                    console.log(`   ✅ Added custom scalar: ${getScalarName(scalarItem.item)} from app: ${scalarItem.appId}`);
+                } catch (error) {
+                    console.error(`   ❌ Error adding custom scalar from app ${scalarItem.appId}:`, error);
+                }
+            }
+        }
+
+        // Process customTypes from all apps
+        const customTypes = this.getAllAppCollection('customTypes');
+        if (customTypes.length > 0) {
+            console.log(`� Processing ${customTypes.length} custom types from all apps...`);
+            for (const typeItem of customTypes) {
+                try {
+                    this.graphqlHelper.addType(typeItem.item, typeItem.appId);
+                    console.log(`   ✅ Added custom type from app: ${typeItem.appId}`);
+                } catch (error) {
+                    console.error(`   ❌ Error adding custom type from app ${typeItem.appId}:`, error);
+                }
+            }
+        }
+    }
+
+    private processAllAppOperations(): void {
+        console.log('🔍 Processing operations from all apps...');
+
         // Process customQueries from all apps
-        const customQueries = collectionStorage.collections.get('customQueries') || [];
+        const customQueries = this.getAllAppCollection('customQueries');
         if (customQueries.length > 0) {
             console.log(`� Processing ${customQueries.length} custom queries from all apps...`);
             for (const queryItem of customQueries) {
                 try {
-                    this.graphqlHelper.addQuery(queryItem.item);
+                    this.graphqlHelper.addQuery(queryItem.item, queryItem.appId);
                     console.log(`   ✅ Added custom query: ${queryItem.item.name || 'unnamed'} from app: ${queryItem.appId}`);
                 } catch (error) {
                     console.error(`   ❌ Error adding custom query from app ${queryItem.appId}:`, error);
@@ -318,12 +532,12 @@ export class AppGraphQL extends AbstractApp {
         }
 
         // Process customMutations from all apps
-        const customMutations = collectionStorage.collections.get('customMutations') || [];
+        const customMutations = this.getAllAppCollection('customMutations');
         if (customMutations.length > 0) {
             console.log(`✏️ Processing ${customMutations.length} custom mutations from all apps...`);
             for (const mutationItem of customMutations) {
                 try {
-                    this.graphqlHelper.addMutation(mutationItem.item);
+                    this.graphqlHelper.addMutation(mutationItem.item, mutationItem.appId);
                     console.log(`   ✅ Added custom mutation: ${mutationItem.item.name || 'unnamed'} from app: ${mutationItem.appId}`);
                 } catch (error) {
                     console.error(`   ❌ Error adding custom mutation from app ${mutationItem.appId}:`, error);
@@ -332,38 +546,46 @@ export class AppGraphQL extends AbstractApp {
         }
 
         // Process customSubscriptions from all apps
-        const customSubscriptions = collectionStorage.collections.get('customSubscriptions') || [];
+        const customSubscriptions = this.getAllAppCollection('customSubscriptions');
         if (customSubscriptions.length > 0) {
             console.log(`📡 Processing ${customSubscriptions.length} custom subscriptions from all apps...`);
             for (const subscriptionItem of customSubscriptions) {
                 try {
-                    this.graphqlHelper.addSubscription(subscriptionItem.item);
+                    this.graphqlHelper.addSubscription(subscriptionItem.item, subscriptionItem.appId);
                     console.log(`   ✅ Added custom subscription: ${subscriptionItem.item.name || 'unnamed'} from app: ${subscriptionItem.appId}`);
                 } catch (error) {
                     console.error(`   ❌ Error adding custom subscription from app ${subscriptionItem.appId}:`, error);
                 }
             }
         }
+    }
 
-        // Process customTypes from all apps
-        const customTypes = collectionStorage.collections.get('customTypes') || [];
-        if (customTypes.length > 0) {
-            console.log(`� Processing ${customTypes.length} custom types from all apps...`);
-            for (const typeItem of customTypes) {
-                try {
-                    this.graphqlHelper.addType(typeItem.item);
-                    console.log(`   ✅ Added custom type from app: ${typeItem.appId}`);
-                } catch (error) {
-                    console.error(`   ❌ Error adding custom type from app ${typeItem.appId}:`, error);
-                }
-            }
+    /**
+     * Report conflicts between generated schema and parts contributed by apps according to `schemaValidation`
+     */
+    private validateSchema(): void {
+        const policy = this.config.schemaValidation;
+        if (policy === 'off') {
+            return;
+        }
+
+        const diagnostics = this.graphqlHelper.validateSchema();
+        if (diagnostics.length === 0) {
+            console.log('✅ GraphQL schema validation passed');
+            return;
+        }
+
+        if (policy === 'fail') {
+            throw new SchemaValidationError(diagnostics);
         }
+
+        console.warn(`⚠️ GraphQL schema validation found ${diagnostics.length} problem(s):\n${formatSchemaDiagnostics(diagnostics)}`);
     }
 
     // Public methods for manual registration
-    public addModel(model: any): void {
+    public addModel(model: any, source?: string): void {
         this.models.push(model);
-        this.graphqlHelper.addModel(model);
+        this.graphqlHelper.addModel(model, source);
     }
 
     public addResolver(resolver: any): void {
@@ -376,6 +598,11 @@ export class AppGraphQL extends AbstractApp {
         this.graphqlHelper.addType(type);
     }
 
+    public addScalar(scalar: GraphQLScalarType | GraphQLScalarDefinition): void {
+        this.customScalars.push(scalar);
+        this.graphqlHelper.addScalar(scalar);
+    }
+
     public getSchema() {
         return this.graphqlHelper.getSchema();
     }
@@ -384,3 +611,7 @@ export class AppGraphQL extends AbstractApp {
         return this.graphqlHelper;
     }
 }
+
+function getScalarName(scalar: GraphQLScalarType | GraphQLScalarDefinition): string {
+    return ('scalar' in scalar ? scalar.scalar.name : scalar?.name) || 'unnamed';
+}
@@ -7,16 +7,72 @@ import { WhereOptions } from 'sequelize';
 // are loaded from different module entry points (src/dist, CJS/ESM).
 const GQL_MODEL_KEY = Symbol.for('app:graphql:model');
 const GQL_FIELDS_KEY = Symbol.for('app:graphql:fields');
+const GQL_COMPUTED_KEY = Symbol.for('app:graphql:computed');
+const GQL_OPERATIONS_KEY = Symbol.for('app:graphql:operations');
 
 // --- Типы для GQL конфигурации ---
+export type FieldAuthOperation = 'read' | 'write';
+
+/**
+ * Roles allowed to access the field or function receiving request, parent row
+ * (null when there is no row yet, e.g. create) and operation
+ */
+export type FieldAuthRule = string[] | ((req: Request, parent: any, operation: FieldAuthOperation) => boolean | Promise<boolean>);
+
 export interface GQLFieldConfig {
   type?: string;
   nullable?: boolean;
   list?: boolean;
   description?: string;
+  /**
+   * Resolver of the field `(row, args, context, info)` used instead of the attribute value
+   */
   resolver?: Function;
   exclude?: boolean;
+  /**
+   * GraphQL type of the field when `type` is not set
+   */
   customType?: string;
+  /**
+   * Name of GraphQL enum generated for ENUM attribute (default `<Model><Field>`)
+   */
+  enumName?: string;
+  /**
+   * Allow sorting by this field in generated `<Model>OrderBy` (default true)
+   */
+  sortable?: boolean;
+  /**
+   * Complexity cost of the field for query limits (default: 1 for object fields, 0 for scalars)
+   */
+  cost?: number;
+  /**
+   * Field level authorization: list of roles or function deciding for every read and write.
+   * Roles are taken from `user.roles` or `user.role` of the request.
+   *
+   * @example
+   * ```typescript
+   * @GQLField({ auth: ['hr', 'admin'] })
+   * salary: number;
+   *
+   * @GQLField({ auth: (req, parent, operation) => operation === 'read' && parent?.id === req.user?.id })
+   * email: string;
+   * ```
+   */
+  auth?: FieldAuthRule;
+  /**
+   * Attributes of the parent row the `auth` function reads, loaded whenever the field is requested
+   * (primary and foreign keys and the `access.owner` attribute are always loaded)
+   */
+  authDependsOn?: string[];
+  /**
+   * What unauthorized read resolves to: 'null' (default) or 'error' with "Access denied"
+   */
+  onUnauthorized?: 'null' | 'error';
+  /**
+   * Include the field in `Create<Model>Input`/`Update<Model>Input`.
+   * Primary keys and timestamps are not writable by default, other columns are.
+   */
+  writable?: boolean;
   // Настройки для различных операций
   operations?: {
     query?: boolean;
@@ -25,6 +81,96 @@ export interface GQLFieldConfig {
   };
 }
 
+/**
+ * Virtual field of the model type, not stored in the database
+ */
+export interface GQLComputedConfig {
+  /**
+   * GraphQL type of the value, e.g. 'String' or 'Tag'
+   */
+  type: string;
+  /** Default true */
+  nullable?: boolean;
+  list?: boolean;
+  description?: string;
+  /**
+   * Field arguments: name -> GraphQL type with optional default value, e.g. `{ size: 'Int = 64' }`
+   */
+  args?: Record<string, string>;
+  /**
+   * Resolver receiving the row values. Without it the decorated method of the model instance is called
+   * with `(args, context, info)` or the getter value is returned.
+   */
+  resolver?: (row: any, args: any, context: any, info: any) => any;
+  /**
+   * Attributes the value is computed from, they are always loaded when the field is requested.
+   * Without it the row is loaded with all attributes.
+   */
+  dependsOn?: string[];
+  /**
+   * Complexity cost of the field for query limits
+   */
+  cost?: number;
+  auth?: FieldAuthRule;
+  authDependsOn?: string[];
+  onUnauthorized?: 'null' | 'error';
+}
+
+/**
+ * GraphQL type name ('Int', 'Post') or a class: String, Number (Float), Boolean, Date (DateTime)
+ * or a model class (its type)
+ */
+export type GQLTypeReference = string | Function;
+
+export interface GQLArgConfig {
+  type: GQLTypeReference;
+  /** Default true */
+  nullable?: boolean;
+  list?: boolean;
+  defaultValue?: unknown;
+  description?: string;
+}
+
+/**
+ * Root query or mutation declared on the model class
+ */
+export interface GQLOperationConfig {
+  /**
+   * Field name in Query/Mutation (default: method name)
+   */
+  name?: string;
+  /**
+   * Return type
+   */
+  type: GQLTypeReference;
+  /** Default true */
+  nullable?: boolean;
+  list?: boolean;
+  /**
+   * Arguments: name -> type or full argument config
+   */
+  args?: Record<string, GQLTypeReference | GQLArgConfig>;
+  description?: string;
+  /**
+   * Operation checked by `access` rules and authHandler of the model before the method is called
+   * (default 'query' for @GQLQuery and 'update' for @GQLMutation). `false` skips the check,
+   * the method authorizes the call itself.
+   */
+  access?: AuthOperation | false;
+}
+
+export type GQLOperationKind = 'query' | 'mutation';
+
+export interface GQLOperationMetadata {
+  kind: GQLOperationKind;
+  /**
+   * Static method called with `(args, context, info, where)`,
+   * `where` holds owner and authHandler conditions of the `access` check to scope queries of the method
+   */
+  methodName: string;
+  config: GQLOperationConfig;
+}
+
 export interface AuthResult<TAttributes = any> {
   /**
    * Indicates whether the authentication was successful
@@ -36,11 +182,37 @@ export interface AuthResult<TAttributes = any> {
    */
   where?: WhereOptions<TAttributes>;
   /**
-   * Optional list of allowed operations for the current user
+   * Optional list of allowed operations for the current user,
+   * operations missing from the list are denied
    */
   allowedOperations?: string[];
 }
-export type AuthOperation = 'query' | 'create' | 'update' | 'delete';
+/**
+ * 'restore' and 'hardDelete' are used only by paranoid models
+ */
+export type AuthOperation = 'query' | 'create' | 'update' | 'delete' | 'restore' | 'hardDelete';
+
+export interface InputHandlerResult<TAttributes = any> {
+  /**
+   * false rejects the mutation with "Access denied" (default true)
+   */
+  success?: boolean;
+  /**
+   * Values merged over the client input, e.g. `{ authorId: user.id }`
+   */
+  data?: Partial<TAttributes>;
+  /**
+   * Fields stripped from the client input before it reaches Sequelize
+   */
+  forbiddenFields?: string[];
+}
+
+export type AccessConfig = Partial<Record<AuthOperation, string[]>> & {
+  /**
+   * Attribute holding id of the owner, required by the 'owner' role
+   */
+  owner?: string;
+};
 
 export interface GQLModelConfig<TAttributes = any> {
   typeName?: string;
@@ -53,6 +225,80 @@ export interface GQLModelConfig<TAttributes = any> {
   };
   customFields?: Record<string, GQLFieldConfig>;
   excludeFields?: string[];
+  /**
+   * Relay-style cursor pagination. When enabled, `<model>Connection(first, after, last, before)`
+   * query and `<Model>Connection` type are generated next to the offset based `<model>List`.
+   */
+  pagination?: {
+    cursor?: boolean;
+    /** Page size when neither `first` nor `last` is passed (default 20) */
+    defaultPageSize?: number;
+    /** Maximum allowed `first`/`last` value (default 100) */
+    maxPageSize?: number;
+  };
+  /**
+   * Declarative role based access to generated operations, checked before authHandler.
+   * Operation without a list is not restricted. Pseudo role 'owner' grants access only to rows
+   * whose `owner` attribute equals the current user id (and sets it on create).
+   *
+   * @example
+   * ```typescript
+   * access: {
+   *   query: ['user', 'admin'],
+   *   create: ['user', 'admin'],
+   *   update: ['owner', 'admin'],
+   *   delete: ['admin'],
+   *   owner: 'authorId'
+   * }
+   * ```
+   */
+  access?: AccessConfig;
+  /**
+   * Bulk mutations `createMany<Model>`, `updateMany<Model>` and `deleteMany<Model>`,
+   * each one runs in a transaction
+   */
+  bulk?: {
+    enabled?: boolean;
+    /** Maximum number of rows created, updated or deleted by one operation (default 100) */
+    maxBatchSize?: number;
+  };
+  /**
+   * Generate `<model>By<Field>(...)` queries for every unique index of the model, e.g. `userByEmail(email)`
+   */
+  uniqueLookups?: boolean;
+  /**
+   * Generate `upsert<Model>(input)` mutation: insert or update by unique key.
+   * authHandler runs with 'create' or 'update' depending on the path taken.
+   */
+  upsert?: {
+    enabled?: boolean;
+    /**
+     * Attributes identifying existing row, defaults to the first unique index
+     * whose attributes are all writable
+     */
+    conflictTarget?: string[];
+  };
+  /**
+   * Generate `<model>Aggregate(where, groupBy)` query: count, and sum/avg/min/max over numeric
+   * and date attributes. BIGINT/DECIMAL results are returned as strings.
+   */
+  aggregate?: {
+    enabled?: boolean;
+  };
+  /**
+   * Paranoid models (`paranoid: true`) get `restore<Model>(id)` and `hardDelete<Model>(id)` mutations
+   * (checked as 'restore' and 'hardDelete' operations) and `withDeleted`/`onlyDeleted` query arguments.
+   * `delete<Model>` only marks rows as deleted.
+   */
+  softDelete?: {
+    /** Expose deletedAt attribute in the GraphQL type (default false) */
+    exposeDeletedAt?: boolean;
+  };
+  /**
+   * Getters of the model class and `getterMethods` added to the GraphQL type: getter name -> GraphQL type,
+   * e.g. `{ fullName: 'String', age: 'Int!' }`. Use @GQLComputed for arguments or dependencies.
+   */
+  exposeGetters?: Record<string, string>;
   // Настройки авторизации
   authRequired?: boolean;
   /**
@@ -120,6 +366,26 @@ export interface GQLModelConfig<TAttributes = any> {
    * ```
    */
   authHandler?: (req: Request, where: WhereOptions<TAttributes>, operation: AuthOperation) => AuthResult<TAttributes> | Promise<AuthResult<TAttributes>>;
+  /**
+   * Shape input of create and update mutations before it reaches Sequelize.
+   *
+   * Called after authHandler (which keeps scoping update/delete through `where`).
+   * `current` is the row being updated, null for create.
+   *
+   * @example Force ownership and protect columns
+   * ```typescript
+   * inputHandler: async (req, input, operation) => ({
+   *   data: operation === 'create' ? { authorId: req.user.id } : {},
+   *   forbiddenFields: ['authorId', 'approved']
+   * })
+   * ```
+   */
+  inputHandler?: (
+    req: Request,
+    input: Partial<TAttributes>,
+    operation: 'create' | 'update',
+    current: TAttributes | null
+  ) => InputHandlerResult<TAttributes> | Promise<InputHandlerResult<TAttributes>>;
 }
 
 // --- Декоратор поля модели ---
@@ -139,6 +405,82 @@ export function GQLField(config: GQLFieldConfig = {}) {
   };
 }
 
+// --- Декоратор вычисляемого поля (метод, геттер или VIRTUAL атрибут) ---
+/**
+ * @example
+ * ```typescript
+ * @GQLComputed({ type: 'String', dependsOn: ['firstName', 'lastName'] })
+ * get fullName() { return `${this.firstName} ${this.lastName}`; }
+ *
+ * @GQLComputed({ type: 'String', args: { size: 'Int = 64' }, dependsOn: ['email'] })
+ * avatarUrl(args: { size: number }) { return gravatar(this.email, args.size); }
+ * ```
+ */
+export function GQLComputed(config: GQLComputedConfig) {
+  return function (target: any, propertyKey: string) {
+    const existingFields: Record<string, GQLComputedConfig> =
+      Reflect.getMetadata(GQL_COMPUTED_KEY, target.constructor) || {};
+
+    Reflect.defineMetadata(
+      GQL_COMPUTED_KEY,
+      {
+        ...existingFields,
+        [propertyKey]: config,
+      },
+      target.constructor
+    );
+  };
+}
+
+// --- Декораторы операций модели (статические методы) ---
+function defineOperation(kind: GQLOperationKind, config: GQLOperationConfig) {
+  return function (target: any, propertyKey: string) {
+    // Для статического метода target - сам класс, для метода экземпляра - прототип
+    if (typeof target !== 'function') {
+      throw new Error(`@GQL${kind === 'query' ? 'Query' : 'Mutation'} can only be applied to static methods (${target.constructor?.name}.${propertyKey})`);
+    }
+
+    const existingOperations: GQLOperationMetadata[] = Reflect.getOwnMetadata(GQL_OPERATIONS_KEY, target) || [];
+
+    Reflect.defineMetadata(
+      GQL_OPERATIONS_KEY,
+      [...existingOperations, { kind, methodName: propertyKey, config }],
+      target
+    );
+  };
+}
+
+/**
+ * Register static method of the model as root query
+ *
+ * @example
+ * ```typescript
+ * @GQLQuery({ type: Post, list: true, args: { term: { type: String, nullable: false }, limit: { type: 'Int', defaultValue: 10 } } })
+ * static search(args: { term: string, limit: number }, context: any, info: any, where: WhereOptions) {
+ *   return Post.findAll({ where: { [Op.and]: [where, { title: { [Op.like]: `%${args.term}%` } }] }, limit: args.limit });
+ * }
+ * ```
+ */
+export function GQLQuery(config: GQLOperationConfig) {
+  return defineOperation('query', config);
+}
+
+/**
+ * Register static method of the model as root mutation, checked as 'update' unless `access` is set
+ *
+ * @example
+ * ```typescript
+ * @GQLMutation({ type: Post, args: { id: 'ID!' }, access: 'update' })
+ * static async publish(args: { id: string }, context: any, info: any, where: WhereOptions) {
+ *   const post = await Post.findOne({ where: { [Op.and]: [where, { id: args.id }] } });
+ *   return post?.update({ published: true });
+ * }
+ * ```
+ */
+export function GQLMutation(config: GQLOperationConfig) {
+  return defineOperation('mutation', config);
+}
+
 // --- Декоратор модели ---
 export function GQLModel(config: GQLModelConfig = {}) {
   return function (target: Function) {
@@ -151,6 +493,16 @@ export function getGQLFields(target: any): Record<string, GQLFieldConfig> {
   return Reflect.getMetadata(GQL_FIELDS_KEY, target) || {};
 }
 
+// --- Получение вычисляемых полей ---
+export function getGQLComputedFields(target: any): Record<string, GQLComputedConfig> {
+  return Reflect.getMetadata(GQL_COMPUTED_KEY, target) || {};
+}
+
+// --- Получение операций, объявленных на классе модели ---
+export function getGQLOperations(target: any): GQLOperationMetadata[] {
+  return Reflect.getOwnMetadata(GQL_OPERATIONS_KEY, target) || [];
+}
+
 // --- Получение метаданных модели ---
 export function getGQLModelMetadata(target: Function): GQLModelConfig | undefined {
   return Reflect.getMetadata(GQL_MODEL_KEY, target);
@@ -1,5 +1,5 @@
 import { AbstractCollectionHandler, CollectionItem, AppManager } from "@nodeknit/app-manager";
-import { getGQLModelMetadata, getGQLFields } from '../decorators/index';
+import { getGQLModelMetadata, getGQLFields, getGQLOperations } from '../decorators/index';
 import { AppGraphQL } from '../AppGraphQLMain.js';
 
 export class GQLModelHandler extends AbstractCollectionHandler {
@@ -30,8 +30,13 @@ export class GQLModelHandler extends AbstractCollectionHandler {
 
                 // Добавляем модель напрямую через GraphQL приложение
                 if (this.graphqlApp && typeof this.graphqlApp.addModel === 'function') {
-                    this.graphqlApp.addModel(model);
+                    this.graphqlApp.addModel(model, collectionItem.appId);
                     console.log(`   📡 Model added to GraphQL schema`);
+
+                    // @GQLQuery/@GQLMutation методы регистрируются вместе с моделью
+                    for (const operation of getGQLOperations(model)) {
+                        console.log(`   🔧 ${operation.kind === 'query' ? 'Query' : 'Mutation'} ${operation.config.name || operation.methodName} declared on ${model.name}`);
+                    }
                 } else {
                     console.warn(`   ⚠️  GraphQL app not available or addModel method not found`);
                 }
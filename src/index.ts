@@ -5,6 +5,19 @@ export * from './utils/configGenerator';
 export * from './utils/schemaGenerator';
 export * from './abstract/AbstractGraphQLModelConfig';
 export * from './lib/GraphQLHelper';
+export * from './lib/PubSub';
+export * from './lib/SubscriptionServer';
+export * from './lib/LoaderRegistry';
+export * from './lib/AccessControl';
+export * from './lib/TransactionManager';
+export * from './lib/GraphQLErrors';
+export * from './utils/formatError';
+export * from './utils/graphqlRequest';
+export * from './lib/ScalarRegistry';
+export * from './lib/EnumRegistry';
+export * from './lib/SchemaValidator';
+export * from './utils/scalars';
+export * from './utils/operationArgs';
 export * from './lib/types';
 
 // Re-export commonly used types
@@ -0,0 +1,121 @@
+import type { AuthOperation, FieldAuthRule, FieldAuthOperation, GQLModelConfig } from '../decorators/index';
+import type { RoleResolver, UserIdResolver } from './types';
+import { AuthErrorOptions, ForbiddenError, UnauthenticatedError } from './GraphQLErrors';
+
+/**
+ * Pseudo role in `GQLModelConfig.access` lists: grants access to rows owned by the current user
+ */
+export const OWNER_ROLE = 'owner';
+
+export interface AccessControlOptions {
+    roleResolver?: RoleResolver;
+    userIdResolver?: UserIdResolver;
+}
+
+/**
+ * Default role resolver: `req.user.roles` array or single `req.user.role`
+ */
+export function defaultRoleResolver(req: any): string[] {
+    const user = req?.user;
+    if (!user) {
+        return [];
+    }
+
+    if (Array.isArray(user.roles)) {
+        return user.roles.map(String);
+    }
+
+    return user.role ? [String(user.role)] : [];
+}
+
+/**
+ * Default user id resolver: `req.user.id`
+ */
+export function defaultUserIdResolver(req: any): any {
+    return req?.user?.id ?? null;
+}
+
+/**
+ * Declarative role based access for generated operations and fields.
+ * Roles and user id are resolved once per GraphQL context.
+ */
+export class AccessControl {
+    private options: Required<AccessControlOptions>;
+    private rolesCache: WeakMap<object, Promise<string[]>> = new WeakMap();
+
+    constructor(options: AccessControlOptions = {}) {
+        this.options = {
+            roleResolver: options.roleResolver || defaultRoleResolver,
+            userIdResolver: options.userIdResolver || defaultUserIdResolver
+        };
+    }
+
+    async getRoles(context: any): Promise<string[]> {
+        if (!context || typeof context !== 'object') {
+            return await this.options.roleResolver(context?.req);
+        }
+
+        if (!this.rolesCache.has(context)) {
+            this.rolesCache.set(context, Promise.resolve(this.options.roleResolver(context.req)).then(roles => roles || []));
+        }
+        return this.rolesCache.get(context)!;
+    }
+
+    async getUserId(context: any): Promise<any> {
+        return await this.options.userIdResolver(context?.req);
+    }
+
+    /**
+     * Check `access` lists of the model for the operation.
+     * Returns ownership condition (`{ [owner]: userId }`) when access is granted only by the 'owner' role,
+     * empty object when access is not restricted, throws "Access denied" otherwise.
+     * Thrown errors reject the operation with HTTP status unless `errorOptions` says otherwise.
+     */
+    async authorizeOperation(modelName: string, modelConfig: GQLModelConfig | undefined, context: any, operation: AuthOperation, errorOptions: AuthErrorOptions = { operation: true }): Promise<Record<string, any>> {
+        const allowedRoles = modelConfig?.access?.[operation];
+        if (!allowedRoles) {
+            return {};
+        }
+
+        const roles = await this.getRoles(context);
+        if (allowedRoles.some(role => role !== OWNER_ROLE && roles.includes(role))) {
+            return {};
+        }
+
+        if (allowedRoles.includes(OWNER_ROLE)) {
+            const ownerAttribute = modelConfig!.access!.owner;
+            if (!ownerAttribute) {
+                console.error(`Access rule "owner" requires access.owner attribute for model: ${modelName}`);
+                throw new ForbiddenError(undefined, errorOptions);
+            }
+
+            const userId = await this.getUserId(context);
+            if (userId !== null && userId !== undefined) {
+                return { [ownerAttribute]: userId };
+            }
+        }
+
+        // Без ролей и пользователя отказ означает, что клиент не аутентифицирован
+        if (roles.length === 0 && (await this.getUserId(context)) == null) {
+            throw new UnauthenticatedError(undefined, errorOptions);
+        }
+
+        throw new ForbiddenError(undefined, errorOptions);
+    }
+
+    /**
+     * Check field rule: list of roles (any of them grants access) or custom function
+     */
+    async isFieldAccessAllowed(rule: FieldAuthRule | undefined, context: any, parent: any, operation: FieldAuthOperation): Promise<boolean> {
+        if (!rule) {
+            return true;
+        }
+
+        if (Array.isArray(rule)) {
+            const roles = await this.getRoles(context);
+            return rule.some(role => roles.includes(role));
+        }
+
+        return !!(await rule(context?.req, parent, operation));
+    }
+}
@@ -0,0 +1,142 @@
+import type { EnumValueNaming } from './types';
+
+const GRAPHQL_NAME_PATTERN = /^[_A-Za-z][_0-9A-Za-z]*$/;
+const RESERVED_ENUM_VALUES = new Set(['true', 'false', 'null']);
+
+export function isValidEnumValueName(name: string): boolean {
+    return GRAPHQL_NAME_PATTERN.test(name) && !RESERVED_ENUM_VALUES.has(name);
+}
+
+/**
+ * Default naming: valid names are kept as is, other characters are replaced with "_",
+ * leading digit is prefixed with "_", true/false/null are upper-cased
+ */
+export function defaultEnumValueNaming(value: string): string {
+    if (isValidEnumValueName(value)) {
+        return value;
+    }
+
+    if (RESERVED_ENUM_VALUES.has(value)) {
+        return value.toUpperCase();
+    }
+
+    const name = value.replace(/[^_0-9A-Za-z]/g, '_');
+    return /^[0-9]/.test(name) || name === '' ? `_${name}` : name;
+}
+
+interface EnumDefinition {
+    name: string;
+    /** GraphQL value name -> database value */
+    values: Map<string, string>;
+    signature: string;
+    /** Model the enum was first registered for */
+    owner?: string;
+}
+
+/**
+ * GraphQL enums generated from Sequelize ENUM attributes.
+ * Identical enums registered under default names are shared by all attributes.
+ */
+export class EnumRegistry {
+    private enums: Map<string, EnumDefinition> = new Map();
+    private naming: EnumValueNaming;
+
+    constructor(naming: EnumValueNaming = defaultEnumValueNaming) {
+        this.naming = naming;
+    }
+
+    /**
+     * Register enum and return the name to use for the attribute.
+     * Without `explicit` an already registered enum with the same values is reused.
+     */
+    register(name: string, dbValues: string[], explicit: boolean = false, owner?: string): string {
+        const signature = JSON.stringify(dbValues);
+
+        if (!explicit) {
+            for (const definition of this.enums.values()) {
+                if (definition.signature === signature) {
+                    return definition.name;
+                }
+            }
+        }
+
+        const existing = this.enums.get(name);
+        if (existing) {
+            if (existing.signature !== signature) {
+                throw new Error(`Enum ${name} is already defined with different values`);
+            }
+            return name;
+        }
+
+        const values = new Map<string, string>();
+        for (const value of dbValues) {
+            const valueName = this.naming(String(value));
+            if (!isValidEnumValueName(valueName)) {
+                throw new Error(`Enum ${name}: "${valueName}" (from "${value}") is not a valid GraphQL enum value name`);
+            }
+            if (values.has(valueName)) {
+                throw new Error(`Enum ${name}: values "${values.get(valueName)}" and "${value}" are both named ${valueName}`);
+            }
+            values.set(valueName, value);
+        }
+
+        this.enums.set(name, { name, values, signature, owner });
+        return name;
+    }
+
+    has(name: string): boolean {
+        return this.enums.has(name);
+    }
+
+    clear(): void {
+        this.enums.clear();
+    }
+
+    /**
+     * Enum and filter type names with the model owning them
+     */
+    getOwners(): Array<[string, string]> {
+        const owners: Array<[string, string]> = [];
+        for (const definition of this.enums.values()) {
+            if (definition.owner) {
+                owners.push([definition.name, definition.owner], [this.getFilterTypeName(definition.name), definition.owner]);
+            }
+        }
+        return owners;
+    }
+
+    getFilterTypeName(name: string): string {
+        return `${name}Filter`;
+    }
+
+    /**
+     * Enum types and their filter inputs
+     */
+    getTypeDefs(): string {
+        let typeDefs = '';
+
+        for (const definition of this.enums.values()) {
+            typeDefs += `enum ${definition.name} {\n`;
+            for (const valueName of definition.values.keys()) {
+                typeDefs += `  ${valueName}\n`;
+            }
+            typeDefs += '}\n\n';
+
+            const typeName = definition.name;
+            typeDefs += `input ${this.getFilterTypeName(typeName)} {\n  eq: ${typeName}\n  ne: ${typeName}\n  in: [${typeName}!]\n  notIn: [${typeName}!]\n  isNull: Boolean\n}\n\n`;
+        }
+
+        return typeDefs;
+    }
+
+    /**
+     * Internal values of enums: GraphQL value name is translated to database value and back
+     */
+    getResolvers(): Record<string, Record<string, string>> {
+        const resolvers: Record<string, Record<string, string>> = {};
+        for (const definition of this.enums.values()) {
+            resolvers[definition.name] = Object.fromEntries(definition.values);
+        }
+        return resolvers;
+    }
+}
@@ -0,0 +1,85 @@
+import { GraphQLError } from 'graphql';
+
+/**
+ * Machine-readable codes in `extensions.code` of generated API errors
+ */
+export type ErrorCode =
+    | 'UNAUTHENTICATED'
+    | 'FORBIDDEN'
+    | 'NOT_FOUND'
+    | 'VALIDATION_FAILED'
+    | 'CONFLICT'
+    | 'INTERNAL_SERVER_ERROR';
+
+export interface FieldValidationError {
+    /** Attribute name, null for model level validators */
+    field: string | null;
+    message: string;
+    /** Failed validator, e.g. `notNull`, `isEmail`, `not_unique` */
+    validator?: string | null;
+}
+
+/**
+ * Base class of errors thrown by generated resolvers.
+ * Message of these errors is safe to show to clients and is never masked.
+ */
+export class AppGraphQLError extends GraphQLError {
+    readonly code: ErrorCode;
+
+    constructor(message: string, code: ErrorCode, extensions: Record<string, unknown> = {}, originalError?: Error) {
+        super(message, { extensions: { ...extensions, code }, originalError });
+        this.name = new.target.name;
+        this.code = code;
+    }
+}
+
+export interface AuthErrorOptions {
+    /**
+     * The error rejects an operation of the model at the root of the request,
+     * the response gets HTTP status 401/403.
+     * Errors of single fields keep partial responses at 200.
+     */
+    operation?: boolean;
+}
+
+export class UnauthenticatedError extends AppGraphQLError {
+    constructor(message: string = 'Authentication required', options: AuthErrorOptions = {}) {
+        super(message, 'UNAUTHENTICATED', options.operation ? { http: { status: 401 } } : {});
+    }
+}
+
+export class ForbiddenError extends AppGraphQLError {
+    constructor(message: string = 'Access denied', options: AuthErrorOptions = {}) {
+        super(message, 'FORBIDDEN', options.operation ? { http: { status: 403 } } : {});
+    }
+}
+
+export class NotFoundError extends AppGraphQLError {
+    constructor(message: string, extensions: Record<string, unknown> = {}) {
+        super(message, 'NOT_FOUND', extensions);
+    }
+}
+
+export class ValidationFailedError extends AppGraphQLError {
+    readonly fields: FieldValidationError[];
+
+    constructor(message: string, fields: FieldValidationError[] = [], originalError?: Error) {
+        super(message, 'VALIDATION_FAILED', fields.length > 0 ? { fields } : {}, originalError);
+        this.fields = fields;
+    }
+}
+
+export class ConflictError extends AppGraphQLError {
+    readonly fields: FieldValidationError[];
+
+    constructor(message: string, fields: FieldValidationError[] = [], originalError?: Error) {
+        super(message, 'CONFLICT', fields.length > 0 ? { fields } : {}, originalError);
+        this.fields = fields;
+    }
+}
+
+export class InternalError extends AppGraphQLError {
+    constructor(message: string = 'Internal server error', originalError?: Error) {
+        super(message, 'INTERNAL_SERVER_ERROR', {}, originalError);
+    }
+}
@@ -1,28 +1,96 @@
-import { SequelizeModel, GraphQLResolver, GraphQLType, GraphQLFieldType, GraphQLQueryHandler, GraphQLMutationHandler, GraphQLSubscriptionHandler } from "./types";
-import { getGQLModelMetadata, getGQLFields, GQLFieldConfig, GQLModelConfig, AuthResult } from '../decorators/index';
-import { WhereOptions } from 'sequelize';
+import { SequelizeModel, GraphQLResolver, GraphQLType, GraphQLFieldType, GraphQLQueryHandler, GraphQLMutationHandler, GraphQLSubscriptionHandler, GraphQLSubscriptionResolver, GraphQLArgumentDefinition, ModelEvent, GraphQLHelperOptions } from "./types";
+import { getGQLModelMetadata, getGQLFields, getGQLComputedFields, getGQLOperations, GQLFieldConfig, GQLComputedConfig, GQLModelConfig, GQLOperationMetadata, AuthResult, AuthOperation, FieldAuthRule } from '../decorators/index';
+import { WhereOptions, Op, col, fn } from 'sequelize';
+import { PubSubEngine, InMemoryPubSub, createPubSubIterator } from './PubSub';
+import { LoaderRegistry } from './LoaderRegistry';
+import { matchesWhere } from '../utils/whereMatcher';
+import { OrderKey, OrderByInput, PageInfo, encodeCursor, decodeCursor, buildKeysetWhere, invertOrder, isNullLargest } from '../utils/cursorPagination';
+import { SCALAR_FILTER_TYPES, FilterTranslation, FilterIncludeTree, FilterIncludeScopes, getScalarFilterType, translateFilter, buildFilterInclude, collectFilterFields } from '../utils/filters';
+import { SelectionTree, getSelectionTree, getSelectionSubtree } from '../utils/selectionSet';
+import { AggregateFunction, AggregateKind, AGGREGATE_FUNCTIONS, getAggregateKind, isAggregateSupported, getAggregateGraphQLType, buildAggregateAttribute, formatAggregateValue } from '../utils/aggregation';
+import { AccessControl } from './AccessControl';
+import { getSequelizeTypeKey } from '../utils/scalars';
+import { ScalarRegistry, GraphQLScalarDefinition } from './ScalarRegistry';
+import { EnumRegistry } from './EnumRegistry';
+import { GraphQLTypeUsage, collectTypeUsage, printArguments, printArgumentDefinitions, printDeprecation, printTypeReference, validateArgumentDefinitions } from '../utils/operationArgs';
+import type { GraphQLScalarType } from 'graphql';
+import { AuthErrorOptions, ForbiddenError, NotFoundError, ValidationFailedError } from './GraphQLErrors';
+import { SchemaValidator, SchemaDiagnostic } from './SchemaValidator';
+
+// Опция Sequelize, которой сгенерированные мутации помечают запись:
+// событие уже опубликовано резолвером и хук не должен дублировать его
+const SKIP_PUBLISH_OPTION = 'gqlSkipPublish';
+const PUBLISH_HOOK_NAME = 'gqlPublishModelEvent';
+
+// Диалекты, где native upsert сообщает, была ли запись создана
+const NATIVE_UPSERT_DIALECTS = new Set(['postgres', 'mysql', 'mariadb']);
+
+// Диалекты с NULLS FIRST/LAST в ORDER BY; в MySQL/MariaDB порядок NULL задается сортировкой по ISNULL(col)
+const NULLS_ORDER_DIALECTS = new Set(['postgres', 'sqlite', 'oracle', 'db2', 'snowflake']);
+const ISNULL_ORDER_DIALECTS = new Set(['mysql', 'mariadb']);
+
+// Источники частей схемы в диагностике: добавленные без appId и сгенерированные по моделям
+const DEFAULT_SOURCE = 'custom';
+const GENERATED_SOURCE = 'generated';
+// Имена типов в сгенерированном SDL моделей
+const GENERATED_TYPE_PATTERN = /^(?:type|input|enum)\s+([_A-Za-z][_0-9A-Za-z]*)/gm;
+
+// Экземпляры моделей, восстановленные из строк для вычисляемых полей (одна строка - один экземпляр)
+const computedInstances = new WeakMap<object, any>();
 
 export class GraphQLHelper {
     private models: Map<string, SequelizeModel> = new Map();
     private customResolvers: GraphQLResolver[] = [];
-    private customTypes: string[] = [];
+    private customTypes: Array<{ typeDefs: string, source: string }> = [];
     private customQueries: GraphQLQueryHandler[] = [];
     private customMutations: GraphQLMutationHandler[] = [];
     private customSubscriptions: GraphQLSubscriptionHandler[] = [];
     private blackList: Set<string> = new Set();
     private whiteList: Set<string> = new Set();
-    private modelMetadata: Map<string, { modelConfig: GQLModelConfig, fieldConfigs: Record<string, GQLFieldConfig> }> = new Map();
+    private modelMetadata: Map<string, { modelConfig: GQLModelConfig, fieldConfigs: Record<string, GQLFieldConfig>, computedFields: Record<string, GQLComputedConfig>, operations: GQLOperationMetadata[] }> = new Map();
     private sequelize: any;
     private skippedModelsWithoutFields: Set<string> = new Set();
-
-    constructor(sequelize?: any) {
+    private skippedUpserts: Set<string> = new Set();
+    private pubsub: PubSubEngine = new InMemoryPubSub();
+    private publishHooksEnabled: boolean = false;
+    private options: GraphQLHelperOptions;
+    private accessControl: AccessControl;
+    private scalars: ScalarRegistry = new ScalarRegistry();
+    private enums: EnumRegistry;
+    // Кто добавил модель или кастомную часть схемы (appId), для диагностики конфликтов
+    private modelSources: Map<string, string> = new Map();
+    // Сгенерированный тип -> модель, для которой он создан
+    private generatedTypeOwners: Map<string, string> = new Map();
+    private handlerSources: Map<object, string> = new Map();
+    // Кастомные операции, аргументы которых не прошли проверку при последней сборке схемы
+    private invalidHandlers: Set<object> = new Set();
+
+    constructor(sequelize?: any, options: GraphQLHelperOptions = {}) {
         this.sequelize = sequelize;
+        this.options = { eagerLoading: false, maxIncludeDepth: 3, ...options };
+        this.accessControl = new AccessControl({
+            roleResolver: this.options.roleResolver,
+            userIdResolver: this.options.userIdResolver
+        });
+        this.enums = new EnumRegistry(this.options.enumValueNaming);
+    }
+
+    /**
+     * Replace PubSub engine used by generated subscriptions
+     */
+    setPubSub(pubsub: PubSubEngine): void {
+        this.pubsub = pubsub;
+    }
+
+    getPubSub(): PubSubEngine {
+        return this.pubsub;
     }
 
     /**
-     * Add Sequelize model to GraphQL schema generation
+     * Add Sequelize model to GraphQL schema generation.
+     * `source` (app id) is used in schema diagnostics, re-adding the model without it keeps the previous one.
      */
-    addModel(model: any): void {
+    addModel(model: any, source?: string): void {
         const modelName = model.name;
         if (this.blackList.has(modelName)) {
             return;
@@ -43,48 +111,111 @@ export class GraphQLHelper {
             attributes: model.rawAttributes || model.attributes || {},
             associations: model.associations || {},
             tableName: model.tableName || modelName.toLowerCase(),
-            primaryKeyAttribute: model.primaryKeyAttribute || 'id'
+            primaryKeyAttribute: model.primaryKeyAttribute || 'id',
+            primaryKeyAttributes: model.primaryKeyAttributes?.length ? [...model.primaryKeyAttributes] : [model.primaryKeyAttribute || 'id'],
+            timestampAttributes: Object.values(model._timestampAttributes || {}),
+            deletedAtAttribute: model.options?.paranoid ? model._timestampAttributes?.deletedAt : undefined
+        };
+
+        // Явно объявленные вычисляемые поля важнее автоматически найденных геттеров
+        const computedFields = {
+            ...(modelConfig.exposeGetters ? collectGetterFields(model, modelConfig.exposeGetters) : {}),
+            ...getGQLComputedFields(model)
         };
 
+        if (source) {
+            this.modelSources.set(modelName, source);
+        }
         this.models.set(modelName, sequelizeModel);
-        this.modelMetadata.set(modelName, { modelConfig, fieldConfigs });
+        this.modelMetadata.set(modelName, { modelConfig, fieldConfigs, computedFields, operations: getGQLOperations(model) });
+
+        if (this.publishHooksEnabled) {
+            this.registerPublishHooks(model);
+        }
 
         console.log(`✅ Added model ${modelName} with GraphQL decorators`);
     }
 
     /**
-     * Add custom GraphQL resolver
+     * Add custom GraphQL resolver. Each part (resolver, type, operation) is added once,
+     * adding the same object again only sets its source if it had none.
      */
-    addResolver(resolver: GraphQLResolver): void {
-        this.customResolvers.push(resolver);
+    addResolver(resolver: GraphQLResolver, source: string = DEFAULT_SOURCE): void {
+        if (this.registerHandler(resolver, source)) {
+            this.customResolvers.push(resolver);
+        }
     }
 
     /**
      * Add custom GraphQL type definition
      */
-    addType(typeDefinition: string): void {
-        this.customTypes.push(typeDefinition);
+    addType(typeDefinition: string, source: string = DEFAULT_SOURCE): void {
+        const existing = this.customTypes.find(type => type.typeDefs === typeDefinition && (type.source === source || type.source === DEFAULT_SOURCE));
+        if (existing) {
+            existing.source = source;
+            return;
+        }
+        this.customTypes.push({ typeDefs: typeDefinition, source });
+    }
+
+    /**
+     * Add custom scalar, optionally mapped to Sequelize data types
+     */
+    addScalar(scalar: GraphQLScalarType | GraphQLScalarDefinition): void {
+        if ('scalar' in scalar) {
+            this.scalars.register(scalar.scalar, { sequelizeTypes: scalar.sequelizeTypes });
+        } else {
+            this.scalars.register(scalar);
+        }
+    }
+
+    getScalarRegistry(): ScalarRegistry {
+        return this.scalars;
     }
 
     /**
-     * Add custom GraphQL query
+     * Add custom GraphQL query. Arguments are checked against the assembled schema:
+     * `getSchema` leaves out operations with invalid arguments, `validateSchema` reports them.
      */
-    addQuery(queryHandler: GraphQLQueryHandler): void {
-        this.customQueries.push(queryHandler);
+    addQuery(queryHandler: GraphQLQueryHandler, source: string = DEFAULT_SOURCE): void {
+        if (this.registerHandler(queryHandler, source)) {
+            this.customQueries.push(queryHandler);
+        }
     }
 
     /**
      * Add custom GraphQL mutation
      */
-    addMutation(mutationHandler: GraphQLMutationHandler): void {
-        this.customMutations.push(mutationHandler);
+    addMutation(mutationHandler: GraphQLMutationHandler, source: string = DEFAULT_SOURCE): void {
+        if (this.registerHandler(mutationHandler, source)) {
+            this.customMutations.push(mutationHandler);
+        }
     }
 
     /**
      * Add custom GraphQL subscription
      */
-    addSubscription(subscriptionHandler: GraphQLSubscriptionHandler): void {
-        this.customSubscriptions.push(subscriptionHandler);
+    addSubscription(subscriptionHandler: GraphQLSubscriptionHandler, source: string = DEFAULT_SOURCE): void {
+        if (this.registerHandler(subscriptionHandler, source)) {
+            this.customSubscriptions.push(subscriptionHandler);
+        }
+    }
+
+    /**
+     * Remember source of the handler, false when the same handler object is already registered
+     */
+    private registerHandler(handler: object, source: string): boolean {
+        const existing = this.handlerSources.get(handler);
+        if (existing === undefined) {
+            this.handlerSources.set(handler, source);
+            return true;
+        }
+
+        // Коллекции своего приложения приходят и из общего хранилища: поле не дублируется
+        if (existing === DEFAULT_SOURCE) {
+            this.handlerSources.set(handler, source);
+        }
+        return false;
     }
 
     /**
@@ -102,27 +233,136 @@ export class GraphQLHelper {
     }
 
     /**
-     * Generate GraphQL schema and resolvers
+     * Complexity cost configured through GQLField({ cost }) for field of model type
+     */
+    getFieldCost(typeName: string, fieldName: string): number | undefined {
+        const metadata = this.modelMetadata.get(typeName);
+        return metadata?.computedFields?.[fieldName]?.cost ?? metadata?.fieldConfigs?.[fieldName]?.cost;
+    }
+
+    /**
+     * Generate GraphQL schema and resolvers. Custom operations with invalid arguments
+     * are left out, `validateSchema` reports them.
      */
     getSchema() {
+        // Enum типы собираются заново при обходе полей моделей
+        this.enums.clear();
         const typeDefs = this.generateTypeDefs();
         const resolvers = this.generateResolvers();
 
         return { typeDefs, resolvers };
     }
 
-    private generateTypeDefs(): string {
+    /**
+     * Check how generated and custom parts of the schema fit together: duplicate types and fields,
+     * replaced resolvers, resolvers without field, root fields without resolver and
+     * arguments of custom operations. Each diagnostic names the sources (app ids) involved.
+     */
+    validateSchema(): SchemaDiagnostic[] {
+        this.enums.clear();
+        const validator = new SchemaValidator();
+        const generatedTypeDefs = this.generateTypeDefs(false);
+
+        validator.add({
+            source: GENERATED_SOURCE,
+            typeDefs: generatedTypeDefs,
+            resolvers: this.generateModelResolvers(),
+            typeSources: this.getGeneratedTypeSources()
+        });
+
+        for (const { typeDefs, source } of this.customTypes) {
+            validator.add({ source, typeDefs });
+        }
+
+        // Операции с ошибками в аргументах проверяются на конфликты без аргументов
+        const invalidHandlers = new Set<object>();
+        const argumentDiagnostics = this.validateOperationArguments(
+            collectTypeUsage([generatedTypeDefs, ...this.customTypes.map(({ typeDefs }) => typeDefs)]),
+            invalidHandlers
+        );
+
+        // Порядок совпадает с порядком слияния в generateResolvers
+        for (const resolver of this.customResolvers) {
+            validator.add({ source: this.getHandlerSource(resolver), resolvers: resolver });
+        }
+
+        for (const query of this.customQueries) {
+            validator.add({
+                source: this.getHandlerSource(query),
+                typeDefs: `extend type Query {\n${printQueryField(invalidHandlers.has(query) ? { ...query, args: undefined } : query)}}`,
+                resolvers: { Query: { [query.name]: query.resolver } }
+            });
+        }
+
+        for (const mutation of this.customMutations) {
+            validator.add({
+                source: this.getHandlerSource(mutation),
+                typeDefs: `extend type Mutation {\n${printMutationField(invalidHandlers.has(mutation) ? { ...mutation, args: undefined, inputType: undefined } : mutation)}}`,
+                resolvers: { Mutation: { [mutation.name]: mutation.resolver } }
+            });
+        }
+
+        for (const subscription of this.customSubscriptions) {
+            validator.add({
+                source: this.getHandlerSource(subscription),
+                typeDefs: `extend type Subscription {\n${printSubscriptionField(invalidHandlers.has(subscription) ? { ...subscription, args: undefined } : subscription)}}`,
+                resolvers: { Subscription: { [subscription.name]: subscription.resolver } }
+            });
+        }
+
+        return [...validator.validate(), ...argumentDiagnostics];
+    }
+
+    /**
+     * Arguments of custom operations: names, input types known to the schema and default values.
+     * Handlers with invalid arguments are added to `invalidHandlers`.
+     */
+    private validateOperationArguments(knownTypes: Map<string, GraphQLTypeUsage>, invalidHandlers: Set<object>): SchemaDiagnostic[] {
+        const diagnostics: SchemaDiagnostic[] = [];
+        const check = (coordinate: string, handler: object, args: GraphQLArgumentDefinition[] = []) => {
+            try {
+                validateArgumentDefinitions(coordinate, args, (name: string) => knownTypes.get(name));
+            } catch (error: any) {
+                invalidHandlers.add(handler);
+                diagnostics.push({ code: 'INVALID_ARGUMENT', message: error.message, coordinate, sources: [this.getHandlerSource(handler)] });
+            }
+        };
+
+        for (const query of this.customQueries) {
+            check(`Query.${query.name}`, query, query.args);
+        }
+        for (const mutation of this.customMutations) {
+            check(`Mutation.${mutation.name}`, mutation, getMutationArguments(mutation));
+        }
+        for (const subscription of this.customSubscriptions) {
+            check(`Subscription.${subscription.name}`, subscription, subscription.args);
+        }
+
+        return diagnostics;
+    }
+
+    private getHandlerSource(handler: object): string {
+        return this.handlerSources.get(handler) || DEFAULT_SOURCE;
+    }
+
+    /**
+     * Without `includeCustom` only generated part is returned: custom types and operations are left out
+     */
+    private generateTypeDefs(includeCustom: boolean = true): string {
         let schema = '';
+        this.generatedTypeOwners.clear();
 
-        // Add JSON scalar for where conditions
-        schema += 'scalar JSON\n\n';
+        // Встроенные и зарегистрированные приложениями скаляры
+        schema += this.scalars.getTypeDefs() + '\n';
 
         // Add custom types
-        for (const type of this.customTypes) {
-            schema += type + '\n';
+        for (const type of includeCustom ? this.customTypes : []) {
+            schema += type.typeDefs + '\n';
         }
 
         // Generate types from Sequelize models
+        let hasConnections = false;
+        let hasBulkMutations = false;
         for (const [modelName, model] of this.models) {
             if (this.whiteList.size > 0 && !this.whiteList.has(modelName)) {
                 continue;
@@ -132,10 +372,42 @@ export class GraphQLHelper {
                 continue;
             }
 
-            schema += this.generateModelType(model) + '\n';
+            schema += this.ownTypes(modelName, this.generateModelType(model) + '\n');
+
+            if (model.primaryKeyAttributes.length > 1) {
+                schema += this.ownTypes(modelName, this.generateKeyInputType(model) + '\n');
+            }
+
+            if (this.isCursorPaginationEnabled(modelName)) {
+                schema += this.ownTypes(modelName, this.generateConnectionTypes(model) + '\n');
+                hasConnections = true;
+            }
+
+            if (this.isAggregateEnabled(modelName)) {
+                schema += this.ownTypes(modelName, this.generateAggregateTypes(model));
+            }
+
+            if (this.isBulkEnabled(modelName)) {
+                schema += this.ownTypes(modelName, `type CreateMany${modelName}Payload {\n  count: Int!\n  records: [${modelName}!]!\n}\n\n`);
+                hasBulkMutations = true;
+            }
+        }
+
+        if (hasBulkMutations) {
+            schema += 'type BatchPayload {\n  count: Int!\n}\n\n';
+        }
+
+        if (hasConnections) {
+            schema += `type PageInfo {
+  hasNextPage: Boolean!
+  hasPreviousPage: Boolean!
+  startCursor: String
+  endCursor: String
+}\n\n`;
         }
 
         // Generate input types for mutations
+        const relationInputTypes = new Set<string>();
         for (const [modelName, model] of this.models) {
             if (this.whiteList.size > 0 && !this.whiteList.has(modelName)) {
                 continue;
@@ -145,15 +417,82 @@ export class GraphQLHelper {
                 continue;
             }
 
-            schema += this.generateModelInputType(model) + '\n';
+            if (this.options.legacyInputTypes) {
+                schema += this.ownTypes(modelName, this.generateModelInputType(model) + '\n');
+            } else {
+                schema += this.ownTypes(modelName, this.generateMutationInputType(model, 'create') + '\n');
+                schema += this.ownTypes(modelName, this.generateMutationInputType(model, 'update') + '\n');
+
+                for (const field of this.getRelationInputFields(model)) {
+                    relationInputTypes.add(this.getRelationInputTypeName(field));
+                }
+            }
+        }
+
+        for (const typeName of relationInputTypes) {
+            schema += this.ownTypes(typeName.replace(/(Many|One)RelationInput$/, ''), this.generateRelationInputType(typeName) + '\n');
+        }
+
+        // Generate filter and order input types for list queries
+        let hasListInputs = false;
+        for (const [modelName, model] of this.models) {
+            if (!this.isModelInSchema(modelName)) {
+                continue;
+            }
+
+            schema += this.ownTypes(modelName, this.generateFilterInputType(model) + '\n');
+            schema += this.ownTypes(modelName, this.generateOrderByInputType(model));
+            hasListInputs = true;
+        }
+
+        if (hasListInputs) {
+            schema += SCALAR_FILTER_TYPES + '\n';
+            schema += 'enum SortDirection {\n  ASC\n  DESC\n}\n\n';
+            schema += 'enum NullsOrder {\n  FIRST\n  LAST\n}\n\n';
+        }
+
+        schema += this.enums.getTypeDefs();
+
+        // Аргументы кастомных операций проверяются по уже собранным типам
+        this.invalidHandlers.clear();
+        if (includeCustom) {
+            for (const diagnostic of this.validateOperationArguments(collectTypeUsage([schema]), this.invalidHandlers)) {
+                console.warn(`⚠️ ${diagnostic.message}, operation is left out of the schema`);
+            }
         }
 
         // Add root types with actual operations
-        schema += this.generateRootTypes();
+        schema += this.generateRootTypes(includeCustom);
 
         return schema;
     }
 
+    /**
+     * Record the model as owner of the types defined in `typeDefs`, the first model generating a type owns it
+     */
+    private ownTypes(modelName: string, typeDefs: string): string {
+        for (const match of typeDefs.matchAll(GENERATED_TYPE_PATTERN)) {
+            if (!this.generatedTypeOwners.has(match[1])) {
+                this.generatedTypeOwners.set(match[1], modelName);
+            }
+        }
+        return typeDefs;
+    }
+
+    /**
+     * Apps of the models generated types belong to
+     */
+    private getGeneratedTypeSources(): Record<string, string> {
+        const typeSources: Record<string, string> = {};
+        for (const [typeName, modelName] of [...this.generatedTypeOwners, ...this.enums.getOwners()]) {
+            const source = this.modelSources.get(modelName);
+            if (source) {
+                typeSources[typeName] = source;
+            }
+        }
+        return typeSources;
+    }
+
     private generateModelType(model: SequelizeModel): string {
         const fields = this.extractModelFields(model);
         const metadata = this.modelMetadata.get(model.name);
@@ -203,10 +542,285 @@ export class GraphQLHelper {
             typeDef += `  ${field.name}: ${fieldType}\n`;
         }
 
+        for (const [name, config] of this.getComputedFields(model)) {
+            if (config.description) {
+                typeDef += `  """${config.description}"""\n`;
+            }
+
+            const args = Object.entries(config.args || {}).map(([argName, argType]) => `${argName}: ${argType}`);
+            const fieldType = config.list ? `[${config.type}]` : config.type;
+            typeDef += `  ${name}${args.length > 0 ? `(${args.join(', ')})` : ''}: ${fieldType}${config.nullable === false ? '!' : ''}\n`;
+        }
+
         typeDef += '}\n';
         return typeDef;
     }
 
+    /**
+     * Computed fields declared with @GQLComputed or found through `exposeGetters`.
+     * Attributes and associations of the same name are replaced only by @GQLComputed.
+     */
+    private getComputedFields(model: SequelizeModel): Array<[string, GQLComputedConfig]> {
+        const computedFields = this.modelMetadata.get(model.name)?.computedFields || {};
+        return Object.entries(computedFields).filter(([name]) => !this.isFieldBlacklisted(model.name, name));
+    }
+
+    /**
+     * Operations declared with @GQLQuery/@GQLMutation on models that are in the schema
+     */
+    private getModelOperations(): Array<{ model: SequelizeModel, operation: GQLOperationMetadata }> {
+        const result: Array<{ model: SequelizeModel, operation: GQLOperationMetadata }> = [];
+
+        for (const [modelName, model] of this.models) {
+            if (!this.isModelInSchema(modelName)) {
+                continue;
+            }
+
+            for (const operation of this.modelMetadata.get(modelName)?.operations || []) {
+                result.push({ model, operation });
+            }
+        }
+
+        return result;
+    }
+
+    private generateConnectionTypes(model: SequelizeModel): string {
+        return `type ${model.name}Edge {
+  cursor: String!
+  node: ${model.name}!
+}
+
+type ${model.name}Connection {
+  edges: [${model.name}Edge!]!
+  pageInfo: PageInfo!
+  totalCount: Int!
+}
+`;
+    }
+
+    private isCursorPaginationEnabled(modelName: string): boolean {
+        return !!this.modelMetadata.get(modelName)?.modelConfig?.pagination?.cursor;
+    }
+
+    /**
+     * Conflict target of upsert mutation, null when upsert is disabled or no unique key is writable
+     */
+    private getUpsertTarget(model: SequelizeModel): string[] | null {
+        const upsertConfig = this.modelMetadata.get(model.name)?.modelConfig?.upsert;
+        if (!upsertConfig?.enabled) {
+            return null;
+        }
+
+        if (upsertConfig.conflictTarget?.length) {
+            return upsertConfig.conflictTarget;
+        }
+
+        const writable = new Set(this.getWritableFields(model).map(field => field.name));
+        const candidates = [...this.getUniqueKeys(model), model.primaryKeyAttributes];
+        const target = candidates.find(attributes => attributes.every(attribute => writable.has(attribute)));
+
+        if (!target) {
+            if (!this.skippedUpserts.has(model.name)) {
+                this.skippedUpserts.add(model.name);
+                console.warn(`⚠️ Skipping upsert${model.name}: no unique index with writable attributes`);
+            }
+            return null;
+        }
+
+        return target;
+    }
+
+    /**
+     * Attribute names of unique constraints and unique indexes of the model
+     */
+    private getUniqueKeys(model: SequelizeModel): string[][] {
+        const ModelClass = this.getModelClass(model.name);
+        const attributeByColumn = new Map<string, string>();
+        for (const [name, attr] of Object.entries<any>(model.attributes)) {
+            attributeByColumn.set(attr.field || name, name);
+        }
+
+        const keys = [
+            ...Object.values<any>(ModelClass?.uniqueKeys || {}),
+            ...(ModelClass?._indexes || []).filter((index: any) => index.unique)
+        ];
+
+        return keys
+            .map(key => (key.fields || []).map((field: any) => {
+                const column = typeof field === 'string' ? field : field.name || field.attribute;
+                return attributeByColumn.get(column) || column;
+            }))
+            .filter(attributes => attributes.length > 0);
+    }
+
+    /**
+     * GraphQL fields of primary key attributes, with types of the attributes
+     */
+    private getPrimaryKeyFields(model: SequelizeModel): GraphQLFieldType[] {
+        const fieldConfigs = this.modelMetadata.get(model.name)?.fieldConfigs || {};
+        return model.primaryKeyAttributes.map(attribute =>
+            this.convertSequelizeAttributeToGraphQLField(attribute, model.attributes[attribute] || {}, fieldConfigs[attribute], model.name)!
+        );
+    }
+
+    /**
+     * Type identifying a row: type of the primary key or `<Model>Key` input for composite keys
+     */
+    private getKeyTypeName(model: SequelizeModel): string {
+        if (model.primaryKeyAttributes.length > 1) {
+            return `${model.name}Key`;
+        }
+        return this.getPrimaryKeyFields(model)[0].type;
+    }
+
+    /**
+     * Arguments of single row operations: `<pk>: <Type>!` or `key: <Model>Key!`
+     */
+    private getKeyArgs(model: SequelizeModel): string {
+        if (model.primaryKeyAttributes.length > 1) {
+            return `key: ${model.name}Key!`;
+        }
+        return `${model.primaryKeyAttribute}: ${this.getKeyTypeName(model)}!`;
+    }
+
+    private generateKeyInputType(model: SequelizeModel): string {
+        let inputDef = `input ${model.name}Key {\n`;
+        for (const field of this.getPrimaryKeyFields(model)) {
+            inputDef += `  ${field.name}: ${field.type}!\n`;
+        }
+        return inputDef + '}\n';
+    }
+
+    /**
+     * Where conditions by primary key from arguments of single row operation
+     */
+    private getKeyWhere(model: SequelizeModel, args: any): any {
+        return this.keyToWhere(model, model.primaryKeyAttributes.length > 1 ? args.key : args[model.primaryKeyAttribute]);
+    }
+
+    /**
+     * Where conditions by primary key value (or `<Model>Key` object for composite keys)
+     */
+    private keyToWhere(model: SequelizeModel, key: any): any {
+        if (model.primaryKeyAttributes.length > 1) {
+            return pickKey(key || {}, model.primaryKeyAttributes);
+        }
+        return { [model.primaryKeyAttribute]: key };
+    }
+
+    /**
+     * Readable key of the row for error messages and deduplication
+     */
+    private formatKey(model: SequelizeModel, row: any): string {
+        if (model.primaryKeyAttributes.length > 1) {
+            return model.primaryKeyAttributes.map(attribute => `${attribute}=${row[attribute]}`).join(',');
+        }
+        return String(row[model.primaryKeyAttribute]);
+    }
+
+    /**
+     * `<model>By<Field>` queries for unique indexes whose attributes are all exposed in the type
+     */
+    private getUniqueLookups(model: SequelizeModel): Array<{ name: string, fields: GraphQLFieldType[] }> {
+        if (!this.modelMetadata.get(model.name)?.modelConfig?.uniqueLookups) {
+            return [];
+        }
+
+        const fields = new Map(this.extractModelFields(model).filter(field => !field.isRelation && !field.isList).map(field => [field.name, field]));
+        const primaryKey = [...model.primaryKeyAttributes].sort().join(',');
+        const queryName = model.name.charAt(0).toLowerCase() + model.name.slice(1);
+        const lookups = new Map<string, { name: string, fields: GraphQLFieldType[] }>();
+
+        for (const key of this.getUniqueKeys(model)) {
+            if (key.length === 0 || !key.every(attribute => fields.has(attribute)) || [...key].sort().join(',') === primaryKey) {
+                continue;
+            }
+
+            const name = `${queryName}By${key.map(attribute => attribute.charAt(0).toUpperCase() + attribute.slice(1)).join('And')}`;
+            lookups.set(name, { name, fields: key.map(attribute => fields.get(attribute)!) });
+        }
+
+        return Array.from(lookups.values());
+    }
+
+    private isBulkEnabled(modelName: string): boolean {
+        const modelConfig = this.modelMetadata.get(modelName)?.modelConfig;
+        const operations = modelConfig?.operations || { mutation: true };
+        return !!operations.mutation && !!modelConfig?.bulk?.enabled;
+    }
+
+    private isAggregateEnabled(modelName: string): boolean {
+        const modelConfig = this.modelMetadata.get(modelName)?.modelConfig;
+        const operations = modelConfig?.operations || { query: true };
+        return !!operations.query && !!modelConfig?.aggregate?.enabled;
+    }
+
+    /**
+     * Columns available for the aggregate function. VIRTUAL and non numeric/date attributes are skipped,
+     * keys (primary and foreign) are not summed or averaged.
+     */
+    private getAggregateFields(model: SequelizeModel, aggregate: AggregateFunction): Array<{ name: string, kind: AggregateKind, type: string }> {
+        const fields: Array<{ name: string, kind: AggregateKind, type: string }> = [];
+        for (const field of this.extractModelFields(model)) {
+            const attr = model.attributes[field.name];
+            const kind = getAggregateKind(attr);
+            if (field.isRelation || field.isList || !kind || !isAggregateSupported(kind, aggregate)) {
+                continue;
+            }
+
+            const isKey = field.name === model.primaryKeyAttribute || !!attr?.references;
+            if (isKey && (aggregate === 'sum' || aggregate === 'avg')) {
+                continue;
+            }
+
+            fields.push({ name: field.name, kind, type: field.type });
+        }
+        return fields;
+    }
+
+    private getGroupableFields(model: SequelizeModel): GraphQLFieldType[] {
+        return this.extractModelFields(model).filter(field =>
+            !field.isRelation &&
+            !field.isList &&
+            this.getFilterType(model, field) !== null
+        );
+    }
+
+    private generateAggregateTypes(model: SequelizeModel): string {
+        const groupableFields = this.getGroupableFields(model);
+        let schema = '';
+        let aggregateDef = `type ${model.name}Aggregate {\n  count: Int!\n`;
+
+        for (const aggregate of AGGREGATE_FUNCTIONS) {
+            const fields = this.getAggregateFields(model, aggregate);
+            if (fields.length === 0) {
+                continue;
+            }
+
+            const typeName = `${model.name}Aggregate${aggregate.charAt(0).toUpperCase()}${aggregate.slice(1)}`;
+            schema += `type ${typeName} {\n`;
+            for (const field of fields) {
+                schema += `  ${field.name}: ${getAggregateGraphQLType(field.kind, aggregate, field.type)}\n`;
+            }
+            schema += '}\n\n';
+            aggregateDef += `  ${aggregate}: ${typeName}!\n`;
+        }
+
+        if (groupableFields.length > 0) {
+            schema += `enum ${model.name}AggregateGroupField {\n`;
+            schema += groupableFields.map(field => `  ${field.name}\n`).join('');
+            schema += '}\n\n';
+
+            // Ключ группы: значения колонок из groupBy, остальные null
+            schema += `type ${model.name}AggregateGroup {\n`;
+            schema += groupableFields.map(field => `  ${field.name}: ${field.type}\n`).join('');
+            schema += '}\n\n';
+            aggregateDef += `  group: ${model.name}AggregateGroup\n`;
+        }
+
+        return schema + aggregateDef + '}\n\n';
+    }
+
     private generateModelInputType(model: SequelizeModel): string {
         const fields = this.extractModelFields(model);
         const metadata = this.modelMetadata.get(model.name);
@@ -242,71 +856,273 @@ export class GraphQLHelper {
         return inputDef;
     }
 
-    private generateRootTypes(): string {
-        let queryFields = '';
-        let mutationFields = '';
-        let subscriptionFields = '';
+    /**
+     * `Create<Model>Input` requires only non-null columns without default value,
+     * `Update<Model>Input` has all fields optional for partial updates.
+     * Primary keys and timestamps are omitted unless GQLField({ writable: true }).
+     */
+    private generateMutationInputType(model: SequelizeModel, kind: 'create' | 'update'): string {
+        const fieldConfigs = this.modelMetadata.get(model.name)?.fieldConfigs || {};
+        const typeName = `${kind === 'create' ? 'Create' : 'Update'}${model.name}Input`;
 
-        // Generate operations for each model
-        for (const [modelName, model] of this.models) {
-            if (this.whiteList.size > 0 && !this.whiteList.has(modelName)) {
-                continue;
+        let inputDef = `input ${typeName} {\n`;
+        let hasFields = false;
+
+        for (const field of this.getWritableFields(model)) {
+            const attr = model.attributes[field.name];
+
+            const fieldConfig = fieldConfigs[field.name];
+            if (fieldConfig?.description) {
+                inputDef += `  """${fieldConfig.description}"""\n`;
             }
 
-            if (!this.shouldIncludeModelInSchema(model)) {
-                continue;
+            let fieldType = field.isList ? `[${field.type}]` : field.type;
+            // Временные метки Sequelize заполняет сам
+            const hasDefault = attr?.defaultValue !== undefined || attr?.autoIncrement || model.timestampAttributes?.includes(field.name);
+            if (kind === 'create' && !field.isNullable && !hasDefault) {
+                fieldType += '!';
             }
 
-            const metadata = this.modelMetadata.get(modelName);
-            const modelConfig = metadata?.modelConfig;
+            inputDef += `  ${field.name}: ${fieldType}\n`;
+            hasFields = true;
+        }
+
+        // Вложенные операции над ассоциациями
+        for (const field of this.getRelationInputFields(model)) {
+            inputDef += `  ${field.name}: ${this.getRelationInputTypeName(field)}\n`;
+            hasFields = true;
+        }
+
+        if (!hasFields) {
+            inputDef += '  _empty: Boolean\n';
+        }
+
+        inputDef += '}\n';
+        return inputDef;
+    }
+
+    /**
+     * Associations available for nested mutations: target must be in schema with mutations enabled
+     */
+    private getRelationInputFields(model: SequelizeModel): GraphQLFieldType[] {
+        const fieldConfigs = this.modelMetadata.get(model.name)?.fieldConfigs || {};
+
+        return this.extractModelFields(model).filter(field => {
+            if (!field.isRelation || fieldConfigs[field.name]?.writable === false) {
+                return false;
+            }
+
+            const targetConfig = this.modelMetadata.get(field.relatedModel!)?.modelConfig;
+            const targetOperations = targetConfig?.operations || { mutation: true };
+            return this.isModelInSchema(field.relatedModel!) && !!targetOperations.mutation;
+        });
+    }
+
+    private getRelationInputTypeName(field: GraphQLFieldType): string {
+        const isMany = field.relationType === 'HasMany' || field.relationType === 'BelongsToMany';
+        return `${field.relatedModel}${isMany ? 'Many' : 'One'}RelationInput`;
+    }
+
+    private generateRelationInputType(typeName: string): string {
+        const isMany = typeName.endsWith('ManyRelationInput');
+        const targetName = typeName.slice(0, -(isMany ? 'ManyRelationInput' : 'OneRelationInput').length);
+        const keyType = this.getKeyTypeName(this.models.get(targetName)!);
+
+        if (isMany) {
+            return `input ${typeName} {
+  create: [Create${targetName}Input!]
+  connect: [${keyType}!]
+  disconnect: [${keyType}!]
+  """Replace all related rows with the given ones"""
+  set: [${keyType}!]
+}
+`;
+        }
+
+        return `input ${typeName} {
+  create: Create${targetName}Input
+  connect: ${keyType}
+  disconnect: Boolean
+}
+`;
+    }
+
+    private getWritableFields(model: SequelizeModel): GraphQLFieldType[] {
+        const fieldConfigs = this.modelMetadata.get(model.name)?.fieldConfigs || {};
+        const timestampAttributes = new Set(model.timestampAttributes || []);
+
+        return this.extractModelFields(model).filter(field => {
+            if (field.isRelation) {
+                return false;
+            }
+
+            const writable = fieldConfigs[field.name]?.writable;
+            if (writable !== undefined) {
+                return writable;
+            }
+
+            const attr = model.attributes[field.name];
+            return !attr?.primaryKey && !timestampAttributes.has(field.name) && attr?.type?.key !== 'VIRTUAL';
+        });
+    }
+
+    private generateFilterInputType(model: SequelizeModel): string {
+        const fields = this.extractModelFields(model);
+
+        let inputDef = `input ${model.name}Filter {\n`;
+
+        for (const field of fields) {
+            if (field.isRelation) {
+                // Фильтрация доступна только по ассоциациям "к одному", чтобы не размножать строки
+                if ((field.relationType === 'BelongsTo' || field.relationType === 'HasOne') && this.isModelInSchema(field.relatedModel!)) {
+                    inputDef += `  ${field.name}: ${field.relatedModel}Filter\n`;
+                }
+                continue;
+            }
+
+            const filterType = this.getFilterType(model, field);
+            if (filterType && !field.isList) {
+                inputDef += `  ${field.name}: ${filterType}\n`;
+            }
+        }
+
+        inputDef += `  AND: [${model.name}Filter!]\n`;
+        inputDef += `  OR: [${model.name}Filter!]\n`;
+        inputDef += `  NOT: ${model.name}Filter\n`;
+        inputDef += '}\n';
+        return inputDef;
+    }
+
+    private generateOrderByInputType(model: SequelizeModel): string {
+        const sortableFields = this.getSortableFields(model);
+        if (sortableFields.length === 0) {
+            return '';
+        }
+
+        let typeDef = `enum ${model.name}SortField {\n`;
+        for (const field of sortableFields) {
+            typeDef += `  ${field.name}\n`;
+        }
+        typeDef += '}\n\n';
+
+        typeDef += `input ${model.name}OrderBy {\n`;
+        typeDef += `  field: ${model.name}SortField!\n`;
+        typeDef += '  direction: SortDirection = ASC\n';
+        typeDef += '  nulls: NullsOrder\n';
+        typeDef += '}\n\n';
+        return typeDef;
+    }
+
+    private generateRootTypes(includeCustom: boolean = true): string {
+        let queryFields = '';
+        let mutationFields = '';
+        let subscriptionFields = '';
+
+        // Generate operations for each model
+        for (const [modelName, model] of this.models) {
+            if (this.whiteList.size > 0 && !this.whiteList.has(modelName)) {
+                continue;
+            }
+
+            if (!this.shouldIncludeModelInSchema(model)) {
+                continue;
+            }
+
+            const metadata = this.modelMetadata.get(modelName);
+            const modelConfig = metadata?.modelConfig;
             const operations = modelConfig?.operations || { query: true, mutation: true, subscription: true };
 
             const queryName = modelName.charAt(0).toLowerCase() + modelName.slice(1);
 
             // Query operations
             if (operations.query) {
-                queryFields += `  ${queryName}(id: String!): ${modelName}\n`;
-                queryFields += `  ${queryName}List(where: JSON, limit: Int, offset: Int, order: String): [${modelName}]\n`;
+                const deletedArgs = model.deletedAtAttribute ? ', withDeleted: Boolean, onlyDeleted: Boolean' : '';
+                queryFields += `  ${queryName}(${this.getKeyArgs(model)}${deletedArgs}): ${modelName}\n`;
+
+                for (const lookup of this.getUniqueLookups(model)) {
+                    const lookupArgs = lookup.fields.map(field => `${field.name}: ${field.type}!`).join(', ');
+                    queryFields += `  ${lookup.name}(${lookupArgs}${deletedArgs}): ${modelName}\n`;
+                }
+                const orderArg = this.getSortableFields(model).length > 0 ? `, order: [${modelName}OrderBy!]` : '';
+                queryFields += `  ${queryName}List(where: ${modelName}Filter, limit: Int, offset: Int${orderArg}${deletedArgs}): [${modelName}]\n`;
+
+                if (this.isAggregateEnabled(modelName)) {
+                    const groupByArg = this.getGroupableFields(model).length > 0 ? `, groupBy: [${modelName}AggregateGroupField!]` : '';
+                    queryFields += `  ${queryName}Aggregate(where: ${modelName}Filter${groupByArg}${deletedArgs}): [${modelName}Aggregate!]!\n`;
+                }
+
+                if (this.isCursorPaginationEnabled(modelName)) {
+                    queryFields += `  ${queryName}Connection(where: ${modelName}Filter, first: Int, after: String, last: Int, before: String${orderArg}${deletedArgs}): ${modelName}Connection!\n`;
+                }
             }
 
             // Mutation operations
             if (operations.mutation) {
-                mutationFields += `  create${modelName}(input: ${modelName}Input!): ${modelName}\n`;
-                mutationFields += `  update${modelName}(id: String!, input: ${modelName}Input!): ${modelName}\n`;
-                mutationFields += `  delete${modelName}(id: String!): Boolean\n`;
+                const createInput = this.options.legacyInputTypes ? `${modelName}Input` : `Create${modelName}Input`;
+                const updateInput = this.options.legacyInputTypes ? `${modelName}Input` : `Update${modelName}Input`;
+                mutationFields += `  create${modelName}(input: ${createInput}!): ${modelName}\n`;
+                const keyArgs = this.getKeyArgs(model);
+                mutationFields += `  update${modelName}(${keyArgs}, input: ${updateInput}!): ${modelName}\n`;
+                mutationFields += `  delete${modelName}(${keyArgs}): Boolean\n`;
+
+                if (model.deletedAtAttribute) {
+                    mutationFields += `  restore${modelName}(${keyArgs}): ${modelName}\n`;
+                    mutationFields += `  hardDelete${modelName}(${keyArgs}): Boolean\n`;
+                }
+
+                if (this.getUpsertTarget(model)) {
+                    mutationFields += `  upsert${modelName}(input: ${createInput}!): ${modelName}\n`;
+                }
+
+                if (this.isBulkEnabled(modelName)) {
+                    mutationFields += `  createMany${modelName}(inputs: [${createInput}!]!): CreateMany${modelName}Payload!\n`;
+                    mutationFields += `  updateMany${modelName}(where: ${modelName}Filter!, input: ${updateInput}!): BatchPayload!\n`;
+                    mutationFields += `  deleteMany${modelName}(where: ${modelName}Filter!): BatchPayload!\n`;
+                }
             }
 
             // Subscription operations
             if (operations.subscription) {
                 subscriptionFields += `  ${queryName}Created: ${modelName}\n`;
                 subscriptionFields += `  ${queryName}Updated: ${modelName}\n`;
-                subscriptionFields += `  ${queryName}Deleted(id: String!): ${modelName}\n`;
+                subscriptionFields += `  ${queryName}Deleted(${this.getKeyArgs(model)}): ${modelName}\n`;
             }
         }
 
-        // Add custom queries
-        for (const query of this.customQueries) {
-            if (query.description) {
-                queryFields += `  """${query.description}"""\n`;
+        // Queries and mutations declared on model classes
+        for (const { operation } of this.getModelOperations()) {
+            const { config } = operation;
+            let field = config.description ? `  """${config.description}"""\n` : '';
+            field += `  ${config.name || operation.methodName}${printArguments(config.args)}: ${printTypeReference(config.type, config.nullable !== false, config.list)}\n`;
+
+            if (operation.kind === 'query') {
+                queryFields += field;
+            } else {
+                mutationFields += field;
             }
-            queryFields += `  ${query.name}: ${query.type}\n`;
         }
 
-        // Add custom mutations
-        for (const mutation of this.customMutations) {
-            if (mutation.description) {
-                mutationFields += `  """${mutation.description}"""\n`;
+        if (includeCustom) {
+            // Add custom queries
+            for (const query of this.customQueries) {
+                if (!this.invalidHandlers.has(query)) {
+                    queryFields += printQueryField(query);
+                }
             }
-            const inputType = mutation.inputType ? `(input: ${mutation.inputType}!)` : '';
-            mutationFields += `  ${mutation.name}${inputType}: ${mutation.outputType}\n`;
-        }
 
-        // Add custom subscriptions
-        for (const subscription of this.customSubscriptions) {
-            if (subscription.description) {
-                subscriptionFields += `  """${subscription.description}"""\n`;
+            // Add custom mutations
+            for (const mutation of this.customMutations) {
+                if (!this.invalidHandlers.has(mutation)) {
+                    mutationFields += printMutationField(mutation);
+                }
+            }
+
+            // Add custom subscriptions
+            for (const subscription of this.customSubscriptions) {
+                if (!this.invalidHandlers.has(subscription)) {
+                    subscriptionFields += printSubscriptionField(subscription);
+                }
             }
-            subscriptionFields += `  ${subscription.name}: ${subscription.type}\n`;
         }
 
         if (!queryFields.trim()) {
@@ -338,10 +1154,11 @@ ${subscriptionFields}
         const fields: GraphQLFieldType[] = [];
         const metadata = this.modelMetadata.get(model.name);
         const fieldConfigs = metadata?.fieldConfigs || {};
+        const computedFields = metadata?.computedFields || {};
 
         // Extract attributes
         for (const [attrName, attrDef] of Object.entries(model.attributes)) {
-            if (this.isFieldBlacklisted(model.name, attrName)) {
+            if (this.isFieldBlacklisted(model.name, attrName) || computedFields[attrName]) {
                 continue;
             }
 
@@ -351,7 +1168,12 @@ ${subscriptionFields}
                 continue; // Пропускаем поле, если exclude: true
             }
 
-            const field = this.convertSequelizeAttributeToGraphQLField(attrName, attrDef, fieldConfig);
+            // deletedAt попадает в схему только по явному запросу
+            if (attrName === model.deletedAtAttribute && !fieldConfig && !metadata?.modelConfig?.softDelete?.exposeDeletedAt) {
+                continue;
+            }
+
+            const field = this.convertSequelizeAttributeToGraphQLField(attrName, attrDef, fieldConfig, model.name);
             if (field) {
                 fields.push(field);
             }
@@ -359,7 +1181,7 @@ ${subscriptionFields}
 
         // Extract associations
         for (const [assocName, assocDef] of Object.entries(model.associations)) {
-            if (this.isFieldBlacklisted(model.name, assocName)) {
+            if (this.isFieldBlacklisted(model.name, assocName) || computedFields[assocName]) {
                 continue;
             }
 
@@ -378,6 +1200,19 @@ ${subscriptionFields}
         return fields;
     }
 
+    private isModelInSchema(modelName: string): boolean {
+        const model = this.models.get(modelName);
+        if (!model) {
+            return false;
+        }
+
+        if (this.whiteList.size > 0 && !this.whiteList.has(modelName)) {
+            return false;
+        }
+
+        return this.shouldIncludeModelInSchema(model);
+    }
+
     private shouldIncludeModelInSchema(model: SequelizeModel): boolean {
         const fields = this.extractModelFields(model);
         if (fields.length > 0) {
@@ -392,28 +1227,13 @@ ${subscriptionFields}
         return false;
     }
 
-    private convertSequelizeAttributeToGraphQLField(name: string, attr: any, fieldConfig?: GQLFieldConfig): GraphQLFieldType | null {
-        const typeMap: { [key: string]: string } = {
-            STRING: 'String',
-            TEXT: 'String',
-            INTEGER: 'Int',
-            BIGINT: 'String',
-            FLOAT: 'Float',
-            DOUBLE: 'Float',
-            DECIMAL: 'Float',
-            BOOLEAN: 'Boolean',
-            DATE: 'String',
-            DATEONLY: 'String',
-            TIME: 'String',
-            JSON: 'String', // Using String for JSON, could be enhanced
-            UUID: 'String'
-        };
-
-        const sequelizeType = attr.type?.key || attr.type?.constructor?.name || 'STRING';
-        const graphQLType = typeMap[sequelizeType] || 'String';
+    private convertSequelizeAttributeToGraphQLField(name: string, attr: any, fieldConfig?: GQLFieldConfig, modelName?: string): GraphQLFieldType | null {
+        // Явный тип из декоратора (например, скаляр приложения) важнее маппинга
+        const graphQLType = fieldConfig?.type || fieldConfig?.customType || this.getEnumTypeName(name, attr, fieldConfig, modelName) || this.scalars.getTypeName(attr);
 
-        // Используем настройки из декоратора, если они есть
-        const isNullable = fieldConfig?.nullable !== undefined ? fieldConfig.nullable : (attr.allowNull !== false);
+        // Используем настройки из декоратора, если они есть.
+        // Поле с правилом доступа может вернуться как null, поэтому по умолчанию nullable
+        const isNullable = fieldConfig?.nullable !== undefined ? fieldConfig.nullable : (!!fieldConfig?.auth || attr.allowNull !== false);
         const isList = fieldConfig?.list || false;
 
         return {
@@ -425,6 +1245,23 @@ ${subscriptionFields}
         };
     }
 
+    /**
+     * Register GraphQL enum for ENUM attribute, null for other types
+     */
+    private getEnumTypeName(name: string, attr: any, fieldConfig?: GQLFieldConfig, modelName?: string): string | null {
+        const values: string[] | undefined = attr?.values || attr?.type?.values;
+        if (getSequelizeTypeKey(attr) !== 'ENUM' || !values?.length) {
+            return null;
+        }
+
+        if (fieldConfig?.enumName) {
+            return this.enums.register(fieldConfig.enumName, values, true, modelName);
+        }
+
+        const enumName = `${modelName || ''}${name.charAt(0).toUpperCase()}${name.slice(1)}`;
+        return this.enums.register(enumName, values, false, modelName);
+    }
+
     private convertSequelizeAssociationToGraphQLField(name: string, assoc: any, fieldConfig?: GQLFieldConfig): GraphQLFieldType | null {
         const targetModel = assoc.target?.name || assoc.targetModel?.name;
         if (!targetModel) {
@@ -433,7 +1270,7 @@ ${subscriptionFields}
 
         // Используем настройки из декоратора, если они есть
         const isList = fieldConfig?.list !== undefined ? fieldConfig.list : (assoc.associationType === 'HasMany' || assoc.associationType === 'BelongsToMany');
-        const isNullable = fieldConfig?.nullable !== undefined ? fieldConfig.nullable : (assoc.associationType === 'BelongsTo' ? false : true);
+        const isNullable = fieldConfig?.nullable !== undefined ? fieldConfig.nullable : (!!fieldConfig?.auth || !this.isRequiredBelongsTo(assoc));
 
         return {
             name,
@@ -446,6 +1283,21 @@ ${subscriptionFields}
         };
     }
 
+    /**
+     * BelongsTo is non-null only when the foreign key is required and
+     * authHandler of the target model cannot hide the related row
+     */
+    private isRequiredBelongsTo(assoc: any): boolean {
+        if (assoc.associationType !== 'BelongsTo') {
+            return false;
+        }
+
+        const foreignKeyAttribute = assoc.source?.rawAttributes?.[assoc.foreignKey];
+        const targetConfig = this.modelMetadata.get(assoc.target?.name)?.modelConfig;
+
+        return foreignKeyAttribute?.allowNull === false && !targetConfig?.authRequired && !targetConfig?.access?.query;
+    }
+
     private isFieldBlacklisted(modelName: string, fieldName: string): boolean {
         const metadata = this.modelMetadata.get(modelName);
         const modelConfig = metadata?.modelConfig;
@@ -465,6 +1317,53 @@ ${subscriptionFields}
     }
 
     private generateResolvers(): GraphQLResolver {
+        const resolvers = this.generateModelResolvers();
+
+        // Merge with custom resolvers
+        for (const customResolver of this.customResolvers) {
+            Object.assign(resolvers.Query!, customResolver.Query || {});
+            Object.assign(resolvers.Mutation!, customResolver.Mutation || {});
+            Object.assign(resolvers.Subscription!, customResolver.Subscription || {});
+
+            // Merge type resolvers
+            for (const [key, value] of Object.entries(customResolver)) {
+                if (key !== 'Query' && key !== 'Mutation' && key !== 'Subscription') {
+                    resolvers[key] = { ...(resolvers[key] || {}), ...value };
+                }
+            }
+        }
+
+        // Add custom query resolvers
+        for (const query of this.customQueries) {
+            if (!this.invalidHandlers.has(query)) {
+                resolvers.Query![query.name] = query.resolver;
+            }
+        }
+
+        // Add custom mutation resolvers
+        for (const mutation of this.customMutations) {
+            if (!this.invalidHandlers.has(mutation)) {
+                resolvers.Mutation![mutation.name] = mutation.resolver;
+            }
+        }
+
+        // Add custom subscription resolvers
+        for (const subscription of this.customSubscriptions) {
+            if (this.invalidHandlers.has(subscription)) {
+                continue;
+            }
+            resolvers.Subscription![subscription.name] = subscription.subscribe
+                ? { subscribe: subscription.subscribe, resolve: subscription.resolver }
+                : subscription.resolver;
+        }
+
+        return resolvers;
+    }
+
+    /**
+     * Resolvers of generated operations and types, scalars and enums (without custom resolvers)
+     */
+    private generateModelResolvers(): GraphQLResolver {
         const resolvers: GraphQLResolver = {
             Query: {},
             Mutation: {},
@@ -488,8 +1387,21 @@ ${subscriptionFields}
             // Query resolvers
             if (operations.query) {
                 const queryName = modelName.charAt(0).toLowerCase() + modelName.slice(1);
-                resolvers.Query![queryName] = this.generateQueryResolver(model);
+                resolvers.Query![queryName] = this.generateQueryResolver(model, (args: any) => this.getKeyWhere(model, args));
+
+                for (const lookup of this.getUniqueLookups(model)) {
+                    const fieldNames = lookup.fields.map(field => field.name);
+                    resolvers.Query![lookup.name] = this.generateQueryResolver(model, (args: any) => pickKey(args, fieldNames), fieldNames);
+                }
                 resolvers.Query![`${queryName}List`] = this.generateListQueryResolver(model);
+
+                if (this.isAggregateEnabled(modelName)) {
+                    resolvers.Query![`${queryName}Aggregate`] = this.generateAggregateQueryResolver(model);
+                }
+
+                if (this.isCursorPaginationEnabled(modelName)) {
+                    resolvers.Query![`${queryName}Connection`] = this.generateConnectionQueryResolver(model);
+                }
             }
 
             // Mutation resolvers
@@ -497,266 +1409,1003 @@ ${subscriptionFields}
                 resolvers.Mutation![`create${modelName}`] = this.generateCreateMutationResolver(model);
                 resolvers.Mutation![`update${modelName}`] = this.generateUpdateMutationResolver(model);
                 resolvers.Mutation![`delete${modelName}`] = this.generateDeleteMutationResolver(model);
-            }
 
-            // Field resolvers for relations
-            resolvers[modelName] = this.generateFieldResolvers(model);
-        }
+                if (model.deletedAtAttribute) {
+                    resolvers.Mutation![`restore${modelName}`] = this.generateRestoreMutationResolver(model);
+                    resolvers.Mutation![`hardDelete${modelName}`] = this.generateHardDeleteMutationResolver(model);
+                }
 
-        // Merge with custom resolvers
-        for (const customResolver of this.customResolvers) {
-            Object.assign(resolvers.Query!, customResolver.Query || {});
-            Object.assign(resolvers.Mutation!, customResolver.Mutation || {});
-            Object.assign(resolvers.Subscription!, customResolver.Subscription || {});
+                if (this.getUpsertTarget(model)) {
+                    resolvers.Mutation![`upsert${modelName}`] = this.generateUpsertMutationResolver(model);
+                }
 
-            // Merge type resolvers
-            for (const [key, value] of Object.entries(customResolver)) {
-                if (key !== 'Query' && key !== 'Mutation' && key !== 'Subscription') {
-                    resolvers[key] = { ...(resolvers[key] || {}), ...value };
+                if (this.isBulkEnabled(modelName)) {
+                    resolvers.Mutation![`createMany${modelName}`] = this.generateCreateManyMutationResolver(model);
+                    resolvers.Mutation![`updateMany${modelName}`] = this.generateUpdateManyMutationResolver(model);
+                    resolvers.Mutation![`deleteMany${modelName}`] = this.generateDeleteManyMutationResolver(model);
                 }
             }
-        }
 
-        // Add custom query resolvers
-        for (const query of this.customQueries) {
-            resolvers.Query![query.name] = query.resolver;
-        }
+            // Subscription resolvers
+            if (operations.subscription) {
+                const queryName = modelName.charAt(0).toLowerCase() + modelName.slice(1);
+                resolvers.Subscription![`${queryName}Created`] = this.generateSubscriptionResolver(model, 'created');
+                resolvers.Subscription![`${queryName}Updated`] = this.generateSubscriptionResolver(model, 'updated');
+                resolvers.Subscription![`${queryName}Deleted`] = this.generateSubscriptionResolver(model, 'deleted');
+            }
 
-        // Add custom mutation resolvers
-        for (const mutation of this.customMutations) {
-            resolvers.Mutation![mutation.name] = mutation.resolver;
+            // Field resolvers for relations
+            resolvers[modelName] = this.generateFieldResolvers(model);
         }
 
-        // Add custom subscription resolvers
-        for (const subscription of this.customSubscriptions) {
-            resolvers.Subscription![subscription.name] = subscription.resolver;
+        for (const { model, operation } of this.getModelOperations()) {
+            const root = operation.kind === 'query' ? resolvers.Query! : resolvers.Mutation!;
+            const access = operation.config.access ?? (operation.kind === 'query' ? 'query' : 'update');
+            root[operation.config.name || operation.methodName] = async (parent: any, args: any, context: any, info: any) => {
+                const ModelClass = this.getModelClass(model.name);
+
+                // Правила модели действуют и для объявленных на ней операций
+                const where = access === false ? {} : await this.authorize(model, context, {}, access);
+                return ModelClass[operation.methodName](args, context, info, where);
+            };
         }
 
+        Object.assign(resolvers, this.scalars.getResolvers(), this.enums.getResolvers());
+
         return resolvers;
     }
 
-    private generateQueryResolver(model: SequelizeModel) {
-        return async (parent: any, args: any, context: any) => {
+    /**
+     * Single row query by primary key or by unique index (`lookupFields` are checked for read access)
+     */
+    private generateQueryResolver(model: SequelizeModel, getWhere: (args: any) => any, lookupFields: string[] = []) {
+        return async (parent: any, args: any, context: any, info: any) => {
             const ModelClass = this.getModelClass(model.name);
             if (!ModelClass) return null;
 
-            const metadata = this.modelMetadata.get(model.name);
-            const modelConfig = metadata?.modelConfig;
-
-            const { id } = args;
-            let whereConditions: any = { id };
+            await this.assertFilterFieldsReadable(model, null, null, context, lookupFields);
+            let whereConditions: any = getWhere(args);
 
             // Проверка авторизации через authHandler
-            if (modelConfig?.authRequired) {
-                if (!modelConfig.authHandler) {
-                    console.error(`AuthHandler method is required but not provided for model: ${model.name}`);
-                    throw new Error('Access denied');
-                }
-                
-                const authResult = await modelConfig.authHandler(context.req, whereConditions, "query");
-                
-                // Поддержка как старого формата (boolean), так и нового (AuthResult)
-                if (typeof authResult === 'boolean') {
-                    if (!authResult) {
-                        throw new Error('Access denied');
-                    }
-                } else {
-                    if (!authResult.success) {
-                        throw new Error('Access denied');
-                    }
-                    
-                    // Если authHandler вернул дополнительные where условия, мержим их
-                    if (authResult.where) {
-                        whereConditions = { ...whereConditions, ...authResult.where };
-                    }
-                }
-            }
+            whereConditions = await this.authorize(model, context, whereConditions, "query");
 
             // Используем findOne с where условиями для поддержки санитизации
-            const result = await ModelClass.findOne({ where: whereConditions });
+            const options: any = { where: whereConditions, transaction: context?.transaction };
+            this.applyDeletedScope(model, options, args);
+            await this.applySelection(options, model, info && getSelectionTree(info), context);
+
+            const result = await ModelClass.findOne(options);
             return result ? result.toJSON() : null;
         };
     }
 
     private generateListQueryResolver(model: SequelizeModel) {
-        return async (parent: any, args: any, context: any) => {
+        return async (parent: any, args: any, context: any, info: any) => {
             const ModelClass = this.getModelClass(model.name);
             if (!ModelClass) return [];
 
-            const metadata = this.modelMetadata.get(model.name);
-            const modelConfig = metadata?.modelConfig;
-
             const { where, limit, offset, order } = args;
             const options: any = {};
 
-            // Обработка where условий
-            let inputWhere: WhereOptions = where;
+            await this.assertFilterFieldsReadable(model, where, order, context);
+
+            // Фильтр переводится в Sequelize условия до authHandler,
+            // чтобы он получил обычные WhereOptions
+            const filter = await this.translateFilter(model, where, context);
+            let inputWhere: WhereOptions = filter.where;
 
             // Проверка авторизации через authHandler
-            if (modelConfig?.authRequired) {
-                if (!modelConfig.authHandler) {
-                    console.error(`AuthHandler method is required but not provided for model: ${model.name}`);
-                    throw new Error('Access denied');
-                }
-                
-                const authResult = await modelConfig.authHandler(context.req, inputWhere, "query");
-                
-                // Поддержка как старого формата (boolean), так и нового (AuthResult)
-                if (typeof authResult === 'boolean') {
-                    if (!authResult) {
-                        throw new Error('Access denied');
-                    }
-                } else {
-                    if (!authResult.success) {
-                        throw new Error('Access denied');
-                    }
-                    
-                    // Если authHandler вернул дополнительные where условия, мержим их
-                    if (authResult.where) {
-                        inputWhere = { ...inputWhere, ...authResult.where };
-                    }
-                }
-            }
+            inputWhere = await this.authorize(model, context, inputWhere, "query");
 
             options.where = inputWhere;
+            options.transaction = context?.transaction;
+            this.applyDeletedScope(model, options, args);
+            this.applyFilterInclude(options, filter);
             if (limit) options.limit = limit;
             if (offset) options.offset = offset;
-            if (order) options.order = order;
+            if (order) options.order = this.resolveOrder(model, order);
+            await this.applySelection(options, model, info && getSelectionTree(info), context);
 
             const results = await ModelClass.findAll(options);
             return results.map((result: any) => result.toJSON());
         };
     }
 
-    private generateCreateMutationResolver(model: SequelizeModel) {
-        return async (parent: any, args: any, context: any) => {
+    private generateConnectionQueryResolver(model: SequelizeModel) {
+        return async (parent: any, args: any, context: any, info: any) => {
             const ModelClass = this.getModelClass(model.name);
             if (!ModelClass) return null;
 
-            const metadata = this.modelMetadata.get(model.name);
-            const modelConfig = metadata?.modelConfig;
+            const pagination = this.modelMetadata.get(model.name)?.modelConfig?.pagination || {};
+            const maxPageSize = pagination.maxPageSize ?? 100;
+            const { where, first, after, last, before, order } = args;
 
-            const { input } = args;
-            let _input = input;
-            // Проверка авторизации через authHandler
-            if (modelConfig?.authRequired) {
-                if (!modelConfig.authHandler) {
-                    console.error(`AuthHandler method is required but not provided for model: ${model.name}`);
-                    throw new Error('Access denied');
-                }
-                
-                const authResult = await modelConfig.authHandler(context.req, input, "create");
-                
-                // Поддержка как старого формата (boolean), так и нового (AuthResult)
-                if (typeof authResult === 'boolean') {
-                    if (!authResult) {
-                        throw new Error('Access denied');
-                    }
-                } else {
-                    if (!authResult.success) {
-                        throw new Error('Access denied');
-                    }
+            if (first != null && last != null) {
+                throw new ValidationFailedError('Passing both "first" and "last" is not supported');
+            }
+
+            for (const [name, value] of [['first', first], ['last', last]] as const) {
+                if (value != null && (value < 0 || value > maxPageSize)) {
+                    throw new ValidationFailedError(`"${name}" must be between 0 and ${maxPageSize}`);
                 }
             }
 
-            return await ModelClass.create(_input);
-        };
-    }
+            const backward = last != null;
+            const pageSize = backward ? last : (first ?? pagination.defaultPageSize ?? 20);
 
-    private generateUpdateMutationResolver(model: SequelizeModel) {
-        return async (parent: any, args: any, context: any) => {
-            const ModelClass = this.getModelClass(model.name);
-            if (!ModelClass) return null;
+            if (order?.some((item: OrderByInput) => item.nulls)) {
+                throw new ValidationFailedError('"nulls" ordering is not supported with cursor pagination');
+            }
 
-            const metadata = this.modelMetadata.get(model.name);
-            const modelConfig = metadata?.modelConfig;
+            // Все колонки первичного ключа замыкают сортировку, чтобы курсор был однозначным
+            const orderKeys = this.resolveOrder(model, order) as OrderKey[];
+            for (const attribute of model.primaryKeyAttributes) {
+                if (!orderKeys.some(([field]) => field === attribute)) {
+                    orderKeys.push([attribute, 'ASC']);
+                }
+            }
 
-            const { id, input } = args;
-            let whereConditions: any = { id };
+            await this.assertFilterFieldsReadable(model, where, order, context);
+            const filter = await this.translateFilter(model, where, context);
 
             // Проверка авторизации через authHandler
-            if (modelConfig?.authRequired) {
-                if (!modelConfig.authHandler) {
-                    console.error(`AuthHandler method is required but not provided for model: ${model.name}`);
-                    throw new Error('Access denied');
-                }
-                
-                const authResult = await modelConfig.authHandler(context.req, whereConditions, "update");
-                
-                // Поддержка как старого формата (boolean), так и нового (AuthResult)
-                if (typeof authResult === 'boolean') {
-                    if (!authResult) {
-                        throw new Error('Access denied');
-                    }
-                } else {
-                    if (!authResult.success) {
-                        throw new Error('Access denied');
-                    }
-                    
-                    // Если authHandler вернул дополнительные where условия, мержим их
-                    if (authResult.where) {
-                        whereConditions = { ...whereConditions, ...authResult.where };
-                    }
-                }
+            const scope = this.applyDeletedScope(model, { where: await this.authorize(model, context, filter.where, "query") }, args);
+            const inputWhere = scope.where;
+
+            const conditions: any[] = [];
+            if (inputWhere) conditions.push(inputWhere);
+            const keysetOptions = {
+                nullLargest: isNullLargest(this.sequelize?.getDialect?.()),
+                isNullable: (field: string) => !model.primaryKeyAttributes.includes(field) && model.attributes[field]?.allowNull !== false
+            };
+            if (after) conditions.push(buildKeysetWhere(orderKeys, decodeCursor(after, orderKeys), keysetOptions));
+            if (before) conditions.push(buildKeysetWhere(orderKeys, decodeCursor(before, orderKeys), { ...keysetOptions, before: true }));
+
+            const options: any = {
+                where: { [Op.and]: conditions },
+                order: backward ? invertOrder(orderKeys) : orderKeys,
+                // Лишняя строка показывает, есть ли следующая страница
+                limit: pageSize + 1,
+                paranoid: scope.paranoid,
+                transaction: context?.transaction
+            };
+            this.applyFilterInclude(options, filter);
+            await this.applySelection(
+                options,
+                model,
+                info && getSelectionSubtree(getSelectionTree(info), ['edges', 'node']),
+                context,
+                // Значения ключей сортировки нужны для курсоров
+                orderKeys.map(([field]) => field)
+            );
+
+            const rows = await ModelClass.findAll(options);
+
+            const hasMore = rows.length > pageSize;
+            const nodes = rows.slice(0, pageSize).map((row: any) => row.toJSON());
+            if (backward) {
+                nodes.reverse();
             }
 
-            // Используем findOne с where условиями для поддержки санитизации
-            const instance = await ModelClass.findOne({ where: whereConditions });
-            if (!instance) return null;
+            const edges = nodes.map((node: any) => ({ cursor: encodeCursor(node, orderKeys), node }));
+            const pageInfo: PageInfo = {
+                hasNextPage: backward ? !!before : hasMore,
+                hasPreviousPage: backward ? hasMore : !!after,
+                startCursor: edges.length > 0 ? edges[0].cursor : null,
+                endCursor: edges.length > 0 ? edges[edges.length - 1].cursor : null
+            };
 
-            await instance.update(input);
-            return instance;
+            return {
+                edges,
+                pageInfo,
+                // Считаем только если клиент запросил поле
+                totalCount: () => ModelClass.count(this.applyFilterInclude({ where: inputWhere, paranoid: scope.paranoid, transaction: context?.transaction }, filter))
+            };
         };
     }
 
-    private generateDeleteMutationResolver(model: SequelizeModel) {
-        return async (parent: any, args: any, context: any) => {
+    private generateAggregateQueryResolver(model: SequelizeModel) {
+        return async (parent: any, args: any, context: any, info: any) => {
             const ModelClass = this.getModelClass(model.name);
-            if (!ModelClass) return false;
-
-            const metadata = this.modelMetadata.get(model.name);
-            const modelConfig = metadata?.modelConfig;
+            if (!ModelClass) return [];
 
-            const { id } = args;
-            let whereConditions: any = { id };
+            const { where } = args;
+            const groupBy: string[] = Array.from(new Set<string>(args.groupBy || []));
+            const tree: SelectionTree = info ? getSelectionTree(info) : {};
 
-            // Проверка авторизации через authHandler
-            if (modelConfig?.authRequired) {
-                if (!modelConfig.authHandler) {
-                    console.error(`AuthHandler method is required but not provided for model: ${model.name}`);
-                    throw new Error('Access denied');
-                }
-                
-                const authResult = await modelConfig.authHandler(context.req, whereConditions, "delete");
-                
-                // Поддержка как старого формата (boolean), так и нового (AuthResult)
-                if (typeof authResult === 'boolean') {
-                    if (!authResult) {
-                        throw new Error('Access denied');
+            // Считаем только запрошенные агрегаты
+            const aggregates: Array<{ aggregate: AggregateFunction, field: string, kind: AggregateKind }> = [];
+            for (const aggregate of AGGREGATE_FUNCTIONS) {
+                for (const { name, kind } of this.getAggregateFields(model, aggregate)) {
+                    if (tree[aggregate]?.[name]) {
+                        aggregates.push({ aggregate, field: name, kind });
                     }
-                } else {
-                    if (!authResult.success) {
-                        throw new Error('Access denied');
-                    }
-                    
-                    // Если authHandler вернул дополнительные where условия, мержим их
-                    if (authResult.where) {
-                        whereConditions = { ...whereConditions, ...authResult.where };
+                }
+            }
+
+            await this.assertFilterFieldsReadable(model, where, null, context, [...groupBy, ...aggregates.map(item => item.field)]);
+            const filter = await this.translateFilter(model, where, context);
+
+            // Проверка авторизации через authHandler
+            const inputWhere = await this.authorize(model, context, filter.where, "query");
+
+            const column = (field: string) => model.attributes[field]?.field || field;
+            const dialect = this.sequelize?.getDialect?.();
+            const attributes: any[] = [buildAggregateAttribute(model.name, column(model.primaryKeyAttribute), 'count', 'count')];
+            for (const { aggregate, field, kind } of aggregates) {
+                attributes.push(buildAggregateAttribute(model.name, column(field), aggregate, `${aggregate}__${field}`, kind === 'exact' ? dialect : undefined));
+            }
+
+            const groupColumns = groupBy.map(field => col(`${model.name}.${column(field)}`));
+            groupBy.forEach((field, index) => attributes.push([groupColumns[index], `group__${field}`]));
+
+            const options: any = { where: inputWhere, attributes, raw: true, transaction: context?.transaction };
+            if (groupColumns.length > 0) {
+                options.group = groupColumns;
+                options.order = groupColumns.map(groupColumn => [groupColumn, 'ASC']);
+            }
+            this.applyDeletedScope(model, options, args);
+            this.applyFilterInclude(options, filter);
+
+            const rows = await ModelClass.findAll(options);
+            return rows.map((row: any) => {
+                const result: any = { count: Number(row.count) };
+                for (const aggregate of AGGREGATE_FUNCTIONS) {
+                    result[aggregate] = {};
+                }
+                for (const { aggregate, field, kind } of aggregates) {
+                    result[aggregate][field] = formatAggregateValue(kind, row[`${aggregate}__${field}`]);
+                }
+
+                if (groupBy.length > 0) {
+                    result.group = {};
+                    for (const field of groupBy) {
+                        result.group[field] = row[`group__${field}`];
                     }
                 }
+                return result;
+            });
+        };
+    }
+
+    /**
+     * Translate filter input and authorize read of every joined model:
+     * authHandler and `access` conditions of the target restrict the join
+     */
+    private async translateFilter(model: SequelizeModel, filter: any, context: any): Promise<FilterTranslation> {
+        const translation = translateFilter(filter, model.name, this.resolveFilterAssociation);
+        translation.scopes = {};
+        await this.authorizeFilterInclude(model.name, translation.include, context, translation.scopes);
+        return translation;
+    }
+
+    private async authorizeFilterInclude(modelName: string, tree: FilterIncludeTree, context: any, scopes: FilterIncludeScopes, path: string[] = []): Promise<void> {
+        for (const [association, nested] of Object.entries(tree)) {
+            const targetModel = this.models.get(this.resolveFilterAssociation(modelName, association) || '');
+            if (!targetModel) {
+                continue;
+            }
+
+            const associationPath = [...path, association];
+            const where = await this.authorize(targetModel, context, {}, "query");
+            if (Reflect.ownKeys(where || {}).length > 0) {
+                scopes[associationPath.join('.')] = where;
+            }
+
+            await this.authorizeFilterInclude(targetModel.name, nested, context, scopes, associationPath);
+        }
+    }
+
+    private resolveFilterAssociation = (modelName: string, fieldName: string): string | null => {
+        const assoc = this.models.get(modelName)?.associations?.[fieldName];
+        if (!assoc || (assoc.associationType !== 'BelongsTo' && assoc.associationType !== 'HasOne')) {
+            return null;
+        }
+
+        return assoc.target?.name || null;
+    };
+
+    private applyFilterInclude(options: any, filter: FilterTranslation): any {
+        if (Object.keys(filter.include).length > 0) {
+            options.include = buildFilterInclude(filter.include, filter.scopes);
+            // Ассоциации "к одному" не размножают строки, подзапрос для limit не нужен
+            options.subQuery = false;
+        }
+        return options;
+    }
+
+    /**
+     * `withDeleted`/`onlyDeleted` arguments of paranoid models: disable Sequelize paranoid clause
+     * and keep only soft deleted rows when requested
+     */
+    private applyDeletedScope(model: SequelizeModel, options: any, args: any): any {
+        if (!model.deletedAtAttribute || !(args?.withDeleted || args?.onlyDeleted)) {
+            return options;
+        }
+
+        options.paranoid = false;
+        if (args.onlyDeleted) {
+            const deletedWhere = { [model.deletedAtAttribute]: { [Op.ne]: null } };
+            options.where = options.where ? { [Op.and]: [options.where, deletedWhere] } : deletedWhere;
+        }
+        return options;
+    }
+
+    /**
+     * Lookahead: narrow attributes and eager load associations requested in the selection set
+     */
+    private async applySelection(options: any, model: SequelizeModel, tree: SelectionTree | undefined, context: any, requiredAttributes: string[] = []): Promise<void> {
+        if (!this.options.eagerLoading || !tree) {
+            return;
+        }
+
+        const selection = await this.buildSelectionOptions(model, tree, context, 0);
+
+        if (selection.attributes) {
+            options.attributes = Array.from(new Set([...selection.attributes, ...requiredAttributes]));
+        }
+
+        if (selection.include.length > 0) {
+            options.include = this.mergeIncludes(options.include || [], selection.include);
+        }
+    }
+
+    private async buildSelectionOptions(model: SequelizeModel, tree: SelectionTree, context: any, depth: number): Promise<{ attributes?: string[], include: any[] }> {
+        const fields = new Map(this.extractModelFields(model).map(field => [field.name, field]));
+        const metadata = this.modelMetadata.get(model.name);
+        const computedFields = metadata?.computedFields || {};
+        const attributes = new Set<string>(this.getAlwaysSelectedAttributes(model));
+        const include: any[] = [];
+        let restrictAttributes = true;
+
+        for (const [fieldName, subtree] of Object.entries(tree)) {
+            const field = fields.get(fieldName);
+
+            // Колонки, которые читает правило доступа поля
+            const authDependsOn = computedFields[fieldName]?.authDependsOn || metadata?.fieldConfigs?.[fieldName]?.authDependsOn || [];
+            authDependsOn.forEach(attribute => attributes.add(attribute));
+
+            if (!field) {
+                // Поле с кастомным резолвером может зависеть от любых колонок
+                const dependsOn = computedFields[fieldName]?.dependsOn;
+                if (dependsOn) {
+                    dependsOn.forEach(attribute => attributes.add(attribute));
+                } else {
+                    restrictAttributes = false;
+                }
+                continue;
+            }
+
+            if (!field.isRelation) {
+                // DataTypes.VIRTUAL(returnType, fields) перечисляет нужные колонки, Sequelize добавит их сам
+                const attributeType = model.attributes[fieldName]?.type;
+                if (attributeType?.key === 'VIRTUAL' && !Array.isArray(attributeType.fields)) {
+                    restrictAttributes = false;
+                }
+                if (this.modelMetadata.get(model.name)?.fieldConfigs?.[fieldName]?.resolver) {
+                    restrictAttributes = false;
+                }
+                attributes.add(fieldName);
+                continue;
+            }
+
+            const assoc = model.associations[fieldName];
+            const targetModel = this.models.get(field.relatedModel!);
+
+            // Ключи нужны и для include, и для DataLoader, если ассоциация не будет включена
+            if (assoc.associationType === 'BelongsTo') {
+                attributes.add(assoc.foreignKey);
+            } else {
+                attributes.add(assoc.sourceKey);
+            }
+
+            // BelongsToMany через JOIN размножает строки и ломает limit, его грузит DataLoader
+            if (!targetModel || assoc.associationType === 'BelongsToMany' || depth + 1 > this.options.maxIncludeDepth!) {
+                continue;
+            }
+
+            const nested = await this.buildSelectionOptions(targetModel, subtree, context, depth + 1);
+            const where = await this.getLoaderRegistry(context).memoize(
+                `auth:${targetModel.name}:query`,
+                () => this.authorize(targetModel, context, {}, "query")
+            );
+
+            const includeOptions: any = {
+                association: fieldName,
+                include: nested.include,
+                required: false
+            };
+
+            if (nested.attributes) {
+                includeOptions.attributes = nested.attributes;
+            }
+
+            if (where && (Object.keys(where).length > 0 || Object.getOwnPropertySymbols(where).length > 0)) {
+                includeOptions.where = where;
+            }
+
+            if (assoc.associationType === 'HasMany') {
+                // Отдельный запрос на пачку родителей вместо JOIN
+                includeOptions.separate = true;
+                if (includeOptions.attributes) {
+                    includeOptions.attributes = Array.from(new Set([...includeOptions.attributes, assoc.foreignKey]));
+                }
+            }
+
+            include.push(includeOptions);
+        }
+
+        return {
+            attributes: restrictAttributes ? Array.from(attributes) : undefined,
+            include
+        };
+    }
+
+    /**
+     * Attributes loaded even when not requested: primary and foreign keys
+     * and the owner attribute, rules and loaders of the row depend on them
+     */
+    private getAlwaysSelectedAttributes(model: SequelizeModel): string[] {
+        const attributes = [...model.primaryKeyAttributes];
+
+        for (const assoc of Object.values(model.associations)) {
+            if (assoc.associationType === 'BelongsTo' && model.attributes[assoc.foreignKey]) {
+                attributes.push(assoc.foreignKey);
             }
+        }
+
+        const owner = this.modelMetadata.get(model.name)?.modelConfig?.access?.owner;
+        if (owner && model.attributes[owner]) {
+            attributes.push(owner);
+        }
+
+        return attributes;
+    }
+
+    /**
+     * Merge filter includes (joined only for conditions) with eager includes of the selection set
+     */
+    private mergeIncludes(filterIncludes: any[], eagerIncludes: any[]): any[] {
+        const merged = [...eagerIncludes];
+
+        for (const filterInclude of filterIncludes) {
+            const eager = merged.find(item => item.association === filterInclude.association);
+            if (!eager) {
+                merged.push(filterInclude);
+                continue;
+            }
+
+            eager.include = this.mergeIncludes(filterInclude.include || [], eager.include || []);
+        }
+
+        return merged;
+    }
+
+    /**
+     * Convert `[<Model>OrderBy!]` argument into Sequelize order.
+     * Fields are also checked here, GraphQL enum validation protects only typed clients.
+     * `nulls` is emulated in MySQL/MariaDB and rejected by dialects without NULLS FIRST/LAST.
+     */
+    private resolveOrder(model: SequelizeModel, order?: OrderByInput[] | null): any[] {
+        if (!order || order.length === 0) {
+            return [];
+        }
+
+        const sortableFields = new Set(this.getSortableFields(model).map(field => field.name));
+        const dialect = this.sequelize?.getDialect?.() || '';
+
+        return order.flatMap(({ field, direction, nulls }): any[] => {
+            if (!sortableFields.has(field)) {
+                throw new ValidationFailedError(`Field "${field}" of ${model.name} is not sortable`);
+            }
+
+            const normalizedDirection = direction || 'ASC';
+            if (!nulls) {
+                return [[field, normalizedDirection]];
+            }
+
+            if (NULLS_ORDER_DIALECTS.has(dialect)) {
+                return [[field, `${normalizedDirection} NULLS ${nulls}`]];
+            }
+
+            if (ISNULL_ORDER_DIALECTS.has(dialect)) {
+                // ISNULL(col) равен 1 для NULL: по убыванию NULL идут первыми
+                const column = model.attributes[field]?.field || field;
+                return [
+                    [fn('ISNULL', col(`${model.name}.${column}`)), nulls === 'FIRST' ? 'DESC' : 'ASC'],
+                    [field, normalizedDirection]
+                ];
+            }
+
+            throw new ValidationFailedError(`"nulls" ordering is not supported by ${dialect || 'the database'}`);
+        });
+    }
+
+    private getSortableFields(model: SequelizeModel): GraphQLFieldType[] {
+        const fieldConfigs = this.modelMetadata.get(model.name)?.fieldConfigs || {};
+
+        return this.extractModelFields(model).filter(field =>
+            !field.isRelation &&
+            !field.isList &&
+            fieldConfigs[field.name]?.sortable !== false &&
+            this.getFilterType(model, field) !== null
+        );
+    }
+
+    /**
+     * Filter input type of scalar field: enum filter for generated enums, operator filter by Sequelize type otherwise
+     */
+    private getFilterType(model: SequelizeModel, field: GraphQLFieldType): string | null {
+        if (this.enums.has(field.type)) {
+            return this.enums.getFilterTypeName(field.type);
+        }
+        return getScalarFilterType(model.attributes[field.name]);
+    }
+
+    private generateCreateMutationResolver(model: SequelizeModel) {
+        return async (parent: any, args: any, context: any) => {
+            const ModelClass = this.getModelClass(model.name);
+            if (!ModelClass) return null;
+
+            const { input } = args;
+            const { relations } = this.splitRelationInput(model, input);
+
+            // Вложенные операции выполняются в одной транзакции с основной записью
+            const instance = await this.withTransaction(context, relations.length > 0, (transaction) =>
+                this.createRecord(model, input, context, transaction, true)
+            );
+
+            await this.publishAfterCommit(context, model.name, 'created', instance.toJSON());
+            return instance;
+        };
+    }
+
+    private generateUpdateMutationResolver(model: SequelizeModel) {
+        return async (parent: any, args: any, context: any) => {
+            const ModelClass = this.getModelClass(model.name);
+            if (!ModelClass) return null;
+
+            const { input } = args;
+
+            // Поиск строки и обновление выполняются в одной транзакции
+            const instance = await this.withTransaction(context, true, async (transaction) => {
+                // Проверка авторизации через authHandler
+                const { where, owner } = await this.authorizeWrite(model, context, this.getKeyWhere(model, args), "update");
+
+                // Используем findOne с where условиями для поддержки санитизации
+                const existing = await ModelClass.findOne({ where, transaction, lock: !!transaction });
+                if (!existing) return null;
+
+                return this.updateRecord(model, existing, input, context, transaction, owner);
+            });
+            if (!instance) return null;
+
+            await this.publishAfterCommit(context, model.name, 'updated', instance.toJSON());
+            return instance;
+        };
+    }
+
+    private generateDeleteMutationResolver(model: SequelizeModel) {
+        return async (parent: any, args: any, context: any) => {
+            const ModelClass = this.getModelClass(model.name);
+            if (!ModelClass) return false;
+
+            let whereConditions: any = this.getKeyWhere(model, args);
+
+            // Проверка авторизации через authHandler
+            whereConditions = await this.authorize(model, context, whereConditions, "delete");
 
             // Используем findOne с where условиями для поддержки санитизации
-            const instance = await ModelClass.findOne({ where: whereConditions });
+            const transaction = context?.transaction;
+            const instance = await ModelClass.findOne({ where: whereConditions, transaction });
             if (!instance) return false;
 
-            await instance.destroy();
+            // Снимок строки нужен подписчикам, после destroy его уже не получить
+            const snapshot = instance.toJSON();
+            await instance.destroy({ transaction, [SKIP_PUBLISH_OPTION]: true });
+            await this.publishAfterCommit(context, model.name, 'deleted', snapshot);
             return true;
         };
     }
 
+    private generateRestoreMutationResolver(model: SequelizeModel) {
+        return async (parent: any, args: any, context: any) => {
+            const ModelClass = this.getModelClass(model.name);
+            if (!ModelClass) return null;
+
+            const whereConditions = await this.authorize(model, context, this.getKeyWhere(model, args), "restore");
+
+            const transaction = context?.transaction;
+            const instance = await ModelClass.findOne({ where: whereConditions, paranoid: false, transaction });
+            if (!instance) return null;
+
+            // Восстанавливаем только удаленную строку, активная возвращается как есть
+            if (instance.get(model.deletedAtAttribute) != null) {
+                await instance.restore({ transaction });
+                await this.publishAfterCommit(context, model.name, 'updated', instance.toJSON());
+            }
+            return instance;
+        };
+    }
+
+    private generateHardDeleteMutationResolver(model: SequelizeModel) {
+        return async (parent: any, args: any, context: any) => {
+            const ModelClass = this.getModelClass(model.name);
+            if (!ModelClass) return false;
+
+            const whereConditions = await this.authorize(model, context, this.getKeyWhere(model, args), "hardDelete");
+
+            const transaction = context?.transaction;
+            const instance = await ModelClass.findOne({ where: whereConditions, paranoid: false, transaction });
+            if (!instance) return false;
+
+            const snapshot = instance.toJSON();
+            const wasDeleted = instance.get(model.deletedAtAttribute) != null;
+            await instance.destroy({ force: true, transaction, [SKIP_PUBLISH_OPTION]: true });
+
+            // О мягко удаленной строке подписчики уже получили событие
+            if (!wasDeleted) {
+                await this.publishAfterCommit(context, model.name, 'deleted', snapshot);
+            }
+            return true;
+        };
+    }
+
+    private generateUpsertMutationResolver(model: SequelizeModel) {
+        return async (parent: any, args: any, context: any) => {
+            const ModelClass = this.getModelClass(model.name);
+            if (!ModelClass) return null;
+
+            const { input } = args;
+            const conflictTarget = this.getUpsertTarget(model)!;
+            const missing = conflictTarget.filter(attribute => input[attribute] === undefined || input[attribute] === null);
+            if (missing.length > 0) {
+                throw new ValidationFailedError(`upsert${model.name} requires ${missing.join(', ')}`, missing.map(field => ({ field, message: `${field} is required for upsert`, validator: 'notNull' })));
+            }
+
+            const conflictWhere = Object.fromEntries(conflictTarget.map(attribute => [attribute, input[attribute]]));
+
+            if (this.canUseNativeUpsert(model, input)) {
+                const native = await this.nativeUpsert(model, input, conflictWhere, context);
+                if (native) {
+                    await this.publishAfterCommit(context, model.name, native.created ? 'created' : 'updated', native.instance.toJSON());
+                    return native.instance;
+                }
+            }
+
+            // Путь (создание или обновление) определяется до записи, чтобы вызвать authHandler с нужной операцией
+            const result = await this.withTransaction(context, true, async (transaction) => {
+                // Мягко удаленная строка по-прежнему занимает уникальный ключ
+                const existing = await ModelClass.findOne({ where: conflictWhere, transaction, lock: true, paranoid: false });
+
+                if (!existing) {
+                    return { instance: await this.createRecord(model, input, context, transaction, true), created: true };
+                }
+
+                const { where: scopedWhere, owner } = await this.authorizeWrite(model, context, { [model.primaryKeyAttribute]: existing.get(model.primaryKeyAttribute) }, "update");
+                const instance = await ModelClass.findOne({ where: scopedWhere, transaction, paranoid: false });
+                if (!instance) {
+                    throw new ForbiddenError();
+                }
+
+                if (model.deletedAtAttribute && instance.get(model.deletedAtAttribute) != null) {
+                    await instance.restore({ transaction });
+                }
+
+                return { instance: await this.updateRecord(model, instance, input, context, transaction, owner), created: false };
+            });
+
+            await this.publishAfterCommit(context, model.name, result.created ? 'created' : 'updated', result.instance.toJSON());
+            return result.instance;
+        };
+    }
+
+    /**
+     * Native upsert writes without knowing the path, so it is used only when
+     * no create/update specific rules exist for the model and the dialect reports created rows
+     */
+    private canUseNativeUpsert(model: SequelizeModel, input: any): boolean {
+        const metadata = this.modelMetadata.get(model.name);
+        const modelConfig = metadata?.modelConfig;
+        const fieldConfigs = metadata?.fieldConfigs || {};
+
+        if (!NATIVE_UPSERT_DIALECTS.has(this.sequelize?.getDialect?.())) {
+            return false;
+        }
+
+        // Мягко удаленную строку native upsert обновит, не восстановив
+        if (model.deletedAtAttribute) {
+            return false;
+        }
+
+        if (modelConfig?.authRequired || modelConfig?.access?.create || modelConfig?.access?.update || modelConfig?.inputHandler) {
+            return false;
+        }
+
+        return Object.keys(input).every(key => !model.associations[key] && !fieldConfigs[key]?.auth);
+    }
+
+    /**
+     * Authorize both paths and write the row with native upsert.
+     * Returns null when update is scoped to a subset of rows and the locked lookup has to decide the path.
+     */
+    private async nativeUpsert(model: SequelizeModel, input: any, conflictWhere: any, context: any): Promise<{ instance: any, created: boolean } | null> {
+        const ModelClass = this.getModelClass(model.name);
+        const { data } = this.splitRelationInput(model, input);
+
+        const create = await this.authorizeWrite(model, context, data, "create");
+        const update = await this.authorizeWrite(model, context, conflictWhere, "update");
+        if (update.where !== conflictWhere || Object.keys(update.owner).length > 0) {
+            return null;
+        }
+        await this.assertFieldsWritable(model, data, null, context);
+
+        const values = await this.shapeInput(model, context, data, "create", null, create.owner);
+        const [instance, created] = await ModelClass.upsert(values, {
+            conflictFields: Object.keys(conflictWhere).map(attribute => model.attributes[attribute]?.field || attribute),
+            returning: true,
+            transaction: context?.transaction
+        });
+
+        return { instance, created: !!created };
+    }
+
+    private generateCreateManyMutationResolver(model: SequelizeModel) {
+        return async (parent: any, args: any, context: any) => {
+            const { inputs } = args;
+            this.assertBatchSize(model, inputs.length);
+
+            const records = await this.withTransaction(context, true, async (transaction) => {
+                const created: any[] = [];
+                for (const input of inputs) {
+                    created.push(await this.createRecord(model, input, context, transaction, true));
+                }
+                return created;
+            });
+
+            for (const record of records) {
+                await this.publishAfterCommit(context, model.name, 'created', record.toJSON());
+            }
+
+            return { count: records.length, records };
+        };
+    }
+
+    private generateUpdateManyMutationResolver(model: SequelizeModel) {
+        return async (parent: any, args: any, context: any) => {
+            const { where, input } = args;
+
+            const rows = await this.withTransaction(context, true, async (transaction) => {
+                const { instances, owner } = await this.findBatch(model, where, context, "update", transaction);
+                for (const instance of instances) {
+                    await this.updateRecord(model, instance, input, context, transaction, owner);
+                }
+                return instances;
+            });
+
+            for (const row of rows) {
+                await this.publishAfterCommit(context, model.name, 'updated', row.toJSON());
+            }
+
+            return { count: rows.length };
+        };
+    }
+
+    private generateDeleteManyMutationResolver(model: SequelizeModel) {
+        return async (parent: any, args: any, context: any) => {
+            const { where } = args;
+
+            const snapshots = await this.withTransaction(context, true, async (transaction) => {
+                const { instances } = await this.findBatch(model, where, context, "delete", transaction);
+                const deleted: any[] = [];
+                for (const instance of instances) {
+                    deleted.push(instance.toJSON());
+                    await instance.destroy({ transaction, [SKIP_PUBLISH_OPTION]: true });
+                }
+                return deleted;
+            });
+
+            for (const snapshot of snapshots) {
+                await this.publishAfterCommit(context, model.name, 'deleted', snapshot);
+            }
+
+            return { count: snapshots.length };
+        };
+    }
+
+    /**
+     * Load rows affected by a bulk mutation: filter scoped by authHandler where, limited by maxBatchSize.
+     * Ownership values of `access` rules are returned for the update of the rows.
+     */
+    private async findBatch(model: SequelizeModel, where: any, context: any, operation: AuthOperation, transaction: any): Promise<{ instances: any[], owner: Record<string, any> }> {
+        const ModelClass = this.getModelClass(model.name);
+
+        await this.assertFilterFieldsReadable(model, where, null, context);
+        const filter = await this.translateFilter(model, where, context);
+        const { where: inputWhere, owner } = await this.authorizeWrite(model, context, filter.where, operation);
+
+        const maxBatchSize = this.getMaxBatchSize(model);
+        const options = this.applyFilterInclude({
+            where: inputWhere,
+            order: [[model.primaryKeyAttribute, 'ASC']],
+            // Лишняя строка показывает превышение лимита
+            limit: maxBatchSize + 1,
+            transaction
+        }, filter);
+
+        const instances = await ModelClass.findAll(options);
+        this.assertBatchSize(model, instances.length);
+        return { instances, owner };
+    }
+
+    private getMaxBatchSize(model: SequelizeModel): number {
+        return this.modelMetadata.get(model.name)?.modelConfig?.bulk?.maxBatchSize ?? 100;
+    }
+
+    private assertBatchSize(model: SequelizeModel, size: number): void {
+        const maxBatchSize = this.getMaxBatchSize(model);
+        if (size > maxBatchSize) {
+            throw new ValidationFailedError(`Batch size exceeds maximum allowed ${maxBatchSize} rows for ${model.name}`);
+        }
+    }
+
+    private generateSubscriptionResolver(model: SequelizeModel, event: ModelEvent): GraphQLSubscriptionResolver {
+        return {
+            subscribe: async (parent: any, args: any, context: any) => {
+                // Where условия из authHandler вычисляются один раз на подписку
+                // и затем проверяются для каждого события
+                const authWhere = await this.authorize(model, context, {}, "query");
+                const keyWhere = event === 'deleted' ? this.getKeyWhere(model, args) : null;
+
+                return createPubSubIterator(this.pubsub, this.getModelEventTrigger(model.name, event), (row: any) => {
+                    if (keyWhere && model.primaryKeyAttributes.some(attribute => String(row?.[attribute]) !== String(keyWhere[attribute]))) {
+                        return false;
+                    }
+
+                    return matchesWhere(row, authWhere);
+                });
+            },
+            resolve: (payload: any) => payload
+        };
+    }
+
+    /**
+     * Publish changes made outside of generated mutations through Sequelize hooks,
+     * for registered and later added models. Called when subscriptions are mounted.
+     */
+    enablePublishHooks(): void {
+        this.publishHooksEnabled = true;
+
+        for (const modelName of this.models.keys()) {
+            this.registerPublishHooks(this.getModelClass(modelName));
+        }
+    }
+
+    /**
+     * Publish model change event to subscribers
+     */
+    async publishModelEvent(modelName: string, event: ModelEvent, row: any): Promise<void> {
+        try {
+            await this.pubsub.publish(this.getModelEventTrigger(modelName, event), row);
+        } catch (error) {
+            console.error(`❌ Error publishing ${event} event for model ${modelName}:`, error);
+        }
+    }
+
+    /**
+     * Publish after the request transaction commits, rolled back changes must not reach subscribers
+     */
+    private async publishAfterCommit(context: any, modelName: string, event: ModelEvent, row: any): Promise<void> {
+        if (context?.transaction) {
+            context.transaction.afterCommit(() => this.publishModelEvent(modelName, event, row));
+            return;
+        }
+
+        await this.publishModelEvent(modelName, event, row);
+    }
+
+    private getModelEventTrigger(modelName: string, event: ModelEvent): string {
+        return `${modelName}.${event}`;
+    }
+
+    /**
+     * Sequelize hooks publish changes made outside of generated mutations
+     * (services, scripts, custom resolvers) to the same subscription triggers
+     */
+    private registerPublishHooks(model: any): void {
+        const modelConfig = this.modelMetadata.get(model?.name)?.modelConfig;
+        const operations = modelConfig?.operations || { query: true, mutation: true, subscription: true };
+        if (!operations.subscription || typeof model?.addHook !== 'function') {
+            return;
+        }
+
+        const hooks: Array<[string, ModelEvent]> = [
+            ['afterCreate', 'created'],
+            ['afterUpdate', 'updated'],
+            ['afterDestroy', 'deleted']
+        ];
+
+        for (const [hookType, event] of hooks) {
+            // Повторная регистрация модели не должна дублировать события
+            model.removeHook?.(hookType, PUBLISH_HOOK_NAME);
+            model.addHook(hookType, PUBLISH_HOOK_NAME, (instance: any, options: any) => {
+                if (options?.[SKIP_PUBLISH_OPTION]) {
+                    return;
+                }
+
+                const row = instance.toJSON();
+                const publish = () => this.publishModelEvent(model.name, event, row);
+
+                // Внутри транзакции публикуем только после коммита
+                if (options?.transaction) {
+                    options.transaction.afterCommit(publish);
+                } else {
+                    publish();
+                }
+            });
+        }
+    }
+
+    /**
+     * Check access roles and run authHandler of the model,
+     * return where conditions extended by ownership and auth result
+     */
+    private async authorize(model: SequelizeModel, context: any, where: any, operation: AuthOperation, errorOptions?: AuthErrorOptions): Promise<any> {
+        return (await this.authorizeWrite(model, context, where, operation, errorOptions)).where;
+    }
+
+    /**
+     * Same as `authorize`, also returns ownership values of `access` rules
+     * that written rows must keep (set on create, not reassignable on update)
+     */
+    private async authorizeWrite(model: SequelizeModel, context: any, where: any, operation: AuthOperation, errorOptions: AuthErrorOptions = { operation: true }): Promise<{ where: any, owner: Record<string, any> }> {
+        const metadata = this.modelMetadata.get(model.name);
+        const modelConfig = metadata?.modelConfig;
+
+        const ownerWhere = await this.accessControl.authorizeOperation(model.name, modelConfig, context, operation, errorOptions);
+        if (Object.keys(ownerWhere).length > 0) {
+            // Условия клиента не должны перезаписывать условие владельца и наоборот
+            where = { [Op.and]: [where || {}, ownerWhere] };
+        }
+
+        if (!modelConfig?.authRequired) {
+            return { where, owner: ownerWhere };
+        }
+
+        if (!modelConfig.authHandler) {
+            console.error(`AuthHandler method is required but not provided for model: ${model.name}`);
+            throw new ForbiddenError(undefined, errorOptions);
+        }
+
+        const authResult = await modelConfig.authHandler(context?.req, where, operation);
+
+        // Поддержка как старого формата (boolean), так и нового (AuthResult)
+        if (typeof authResult === 'boolean') {
+            if (!authResult) {
+                throw new ForbiddenError(undefined, errorOptions);
+            }
+            return { where, owner: ownerWhere };
+        }
+
+        if (!authResult.success) {
+            throw new ForbiddenError(undefined, errorOptions);
+        }
+
+        if (authResult.allowedOperations && !authResult.allowedOperations.includes(operation)) {
+            throw new ForbiddenError(undefined, errorOptions);
+        }
+
+        // Если authHandler вернул дополнительные where условия, мержим их
+        if (authResult.where) {
+            return { where: { [Op.and]: [where || {}, authResult.where] }, owner: ownerWhere };
+        }
+
+        return { where, owner: ownerWhere };
+    }
+
     private generateFieldResolvers(model: SequelizeModel): { [key: string]: any } {
         const resolvers: { [key: string]: any } = {};
+        const fieldConfigs = this.modelMetadata.get(model.name)?.fieldConfigs || {};
 
         for (const [assocName, assocDef] of Object.entries(model.associations)) {
             if (this.isFieldBlacklisted(model.name, assocName)) {
@@ -764,15 +2413,349 @@ ${subscriptionFields}
             }
 
             resolvers[assocName] = async (parent: any, args: any, context: any) => {
-                // This would need to be implemented based on how associations are loaded
-                // For now, return the related data if it's already loaded
-                return parent[assocName];
+                // Ассоциация уже загружена (include) - используем ее
+                if (parent[assocName] !== undefined) {
+                    return parent[assocName];
+                }
+
+                const loaders = this.getLoaderRegistry(context);
+                const targetName = (assocDef as any).target?.name;
+                const targetModel = this.models.get(targetName);
+
+                // Where условия authHandler целевой модели вычисляются один раз на запрос
+                // Отказ в доступе к вложенному полю не отклоняет всю операцию
+                const where = targetModel
+                    ? await loaders.memoize(`auth:${targetName}:query`, () => this.authorize(targetModel, context, {}, "query", { operation: false }))
+                    : {};
+
+                return loaders.loadAssociation(assocDef, parent, where, context?.transaction);
+            };
+        }
+
+        const accessRules: Array<[string, FieldAuthRule, 'null' | 'error' | undefined]> = [];
+
+        for (const field of this.extractModelFields(model)) {
+            const fieldConfig = fieldConfigs[field.name];
+            if (!field.isRelation && typeof fieldConfig?.resolver === 'function') {
+                const resolver = fieldConfig.resolver;
+                resolvers[field.name] = (parent: any, args: any, context: any, info: any) => resolver(parent, args, context, info);
+            }
+            if (fieldConfig?.auth) {
+                accessRules.push([field.name, fieldConfig.auth, fieldConfig.onUnauthorized]);
+            }
+        }
+
+        for (const [name, config] of this.getComputedFields(model)) {
+            const resolver = config.resolver;
+            resolvers[name] = resolver
+                ? (parent: any, args: any, context: any, info: any) => resolver(parent, args, context, info)
+                : (parent: any, args: any, context: any, info: any) => this.resolveComputedValue(model, parent, name, args, context, info);
+            if (config.auth) {
+                accessRules.push([name, config.auth, config.onUnauthorized]);
+            }
+        }
+
+        // Поля с правилом доступа проверяются для каждой строки
+        for (const [name, rule, onUnauthorized] of accessRules) {
+            const resolveValue = resolvers[name] || ((parent: any) => parent[name]);
+            resolvers[name] = async (parent: any, args: any, context: any, info: any) => {
+                if (!(await this.accessControl.isFieldAccessAllowed(rule, context, parent, 'read'))) {
+                    if (onUnauthorized === 'error') {
+                        throw new ForbiddenError();
+                    }
+                    return null;
+                }
+
+                return resolveValue(parent, args, context, info);
             };
         }
 
         return resolvers;
     }
 
+    /**
+     * Value of computed field without own resolver: instance method is called with field arguments,
+     * getter or VIRTUAL attribute is read. Resolvers return plain rows, so the instance is rebuilt.
+     */
+    private resolveComputedValue(model: SequelizeModel, row: any, name: string, args: any, context: any, info: any): any {
+        const ModelClass = this.getModelClass(model.name);
+        if (!row || !ModelClass) {
+            return null;
+        }
+
+        let instance = row instanceof ModelClass ? row : computedInstances.get(row);
+        if (!instance) {
+            instance = ModelClass.build(row, { isNewRecord: false, raw: true });
+            computedInstances.set(row, instance);
+        }
+
+        const value = instance[name];
+        return typeof value === 'function' ? value.call(instance, args, context, info) : value;
+    }
+
+    /**
+     * Filtering or sorting by a field reveals its value, so it requires read access.
+     * There is no row yet, rule functions receive null parent.
+     */
+    private async assertFilterFieldsReadable(model: SequelizeModel, where: any, order: OrderByInput[] | null | undefined, context: any, extraFields: string[] = []): Promise<void> {
+        const fields = collectFilterFields(where, model.name, this.resolveFilterAssociation);
+        for (const item of order || []) {
+            fields.push([model.name, item.field]);
+        }
+        for (const field of extraFields) {
+            fields.push([model.name, field]);
+        }
+
+        for (const [modelName, fieldName] of fields) {
+            const rule = this.modelMetadata.get(modelName)?.fieldConfigs?.[fieldName]?.auth;
+            if (!(await this.accessControl.isFieldAccessAllowed(rule, context, null, 'read'))) {
+                throw new ForbiddenError();
+            }
+        }
+    }
+
+    /**
+     * Create row with nested relation operations. Nested rows are published by model hooks,
+     * the root row (`isRoot`) is published by the mutation resolver.
+     */
+    private async createRecord(model: SequelizeModel, input: any, context: any, transaction: any, isRoot: boolean = false): Promise<any> {
+        const ModelClass = this.getModelClass(model.name);
+        const { data, relations } = this.splitRelationInput(model, input);
+
+        // Проверка авторизации через authHandler
+        const { owner } = await this.authorizeWrite(model, context, data, "create");
+        await this.assertFieldsWritable(model, data, null, context);
+
+        const _input = await this.shapeInput(model, context, data, "create", null, owner);
+        const values = await this.applyBelongsToRelations(model, _input, relations, context, transaction);
+
+        const instance = await ModelClass.create(values, { transaction, ...(isRoot ? { [SKIP_PUBLISH_OPTION]: true } : {}) });
+        await this.applyRelations(model, instance, relations, context, transaction);
+        return instance;
+    }
+
+    /**
+     * Update row authorized by the caller with nested relation operations, the caller publishes the event.
+     * `owner` are ownership values returned by `authorizeWrite`.
+     */
+    private async updateRecord(model: SequelizeModel, instance: any, input: any, context: any, transaction: any, owner: Record<string, any>): Promise<any> {
+        const current = instance.toJSON();
+        const { data, relations } = this.splitRelationInput(model, input);
+        await this.assertFieldsWritable(model, data, current, context);
+
+        const _input = await this.shapeInput(model, context, data, "update", current, owner);
+        const values = await this.applyBelongsToRelations(model, _input, relations, context, transaction);
+
+        await instance.update(values, { transaction, [SKIP_PUBLISH_OPTION]: true });
+        await this.applyRelations(model, instance, relations, context, transaction);
+        return instance;
+    }
+
+    private splitRelationInput(model: SequelizeModel, input: any): { data: any, relations: Array<[string, any]> } {
+        const data: any = {};
+        const relations: Array<[string, any]> = [];
+
+        for (const [key, value] of Object.entries(input || {})) {
+            if (model.associations[key] && !this.options.legacyInputTypes) {
+                if (value !== undefined && value !== null) {
+                    relations.push([key, value]);
+                }
+            } else {
+                data[key] = value;
+            }
+        }
+
+        return { data, relations };
+    }
+
+    /**
+     * BelongsTo keeps foreign key on the row itself, so it is resolved into values before create/update
+     */
+    private async applyBelongsToRelations(model: SequelizeModel, values: any, relations: Array<[string, any]>, context: any, transaction: any): Promise<any> {
+        const result = { ...values };
+
+        for (const [assocName, operations] of relations) {
+            const assoc = model.associations[assocName];
+            if (assoc.associationType !== 'BelongsTo') {
+                continue;
+            }
+
+            const targetModel = this.models.get(assoc.target.name)!;
+            this.assertSingleRelationOperation(model, assocName, operations);
+
+            if (operations.create) {
+                const created = await this.createRecord(targetModel, operations.create, context, transaction);
+                result[assoc.foreignKey] = created.get(assoc.targetKey);
+            } else if (operations.connect !== undefined) {
+                const target = await this.findRelatedRows(targetModel, [operations.connect], context, "query", transaction);
+                result[assoc.foreignKey] = target[0].get(assoc.targetKey);
+            } else if (operations.disconnect) {
+                result[assoc.foreignKey] = null;
+            }
+        }
+
+        return result;
+    }
+
+    /**
+     * Nested operations of HasOne/HasMany/BelongsToMany, run after the row exists.
+     * Rows whose foreign key changes (HasOne/HasMany targets) require "update" access,
+     * BelongsToMany links require "query" access to the target.
+     */
+    private async applyRelations(model: SequelizeModel, instance: any, relations: Array<[string, any]>, context: any, transaction: any): Promise<void> {
+        for (const [assocName, operations] of relations) {
+            const assoc = model.associations[assocName];
+            const type = assoc.associationType;
+            if (type === 'BelongsTo') {
+                continue;
+            }
+
+            const targetModel = this.models.get(assoc.target.name)!;
+            const linkOperation: AuthOperation = type === 'BelongsToMany' ? "query" : "update";
+            const accessors = assoc.accessors;
+
+            if (type === 'HasOne') {
+                this.assertSingleRelationOperation(model, assocName, operations);
+
+                if (operations.create) {
+                    await instance[accessors.set](null, { transaction });
+                    await this.createRecord(targetModel, { ...operations.create, [assoc.foreignKey]: instance.get(assoc.sourceKey) }, context, transaction);
+                } else if (operations.connect !== undefined) {
+                    const [target] = await this.findRelatedRows(targetModel, [operations.connect], context, linkOperation, transaction);
+                    await instance[accessors.set](target, { transaction });
+                } else if (operations.disconnect) {
+                    await instance[accessors.set](null, { transaction });
+                }
+                continue;
+            }
+
+            if (operations.set) {
+                const targets = await this.findRelatedRows(targetModel, operations.set, context, linkOperation, transaction);
+                await instance[accessors.set](targets, { transaction });
+            }
+
+            if (operations.disconnect?.length) {
+                const targets = await this.findRelatedRows(targetModel, operations.disconnect, context, linkOperation, transaction);
+                await instance[accessors.remove](targets, { transaction });
+            }
+
+            if (operations.connect?.length) {
+                const targets = await this.findRelatedRows(targetModel, operations.connect, context, linkOperation, transaction);
+                await instance[accessors.add](targets, { transaction });
+            }
+
+            for (const item of operations.create || []) {
+                if (type === 'HasMany') {
+                    await this.createRecord(targetModel, { ...item, [assoc.foreignKey]: instance.get(assoc.sourceKey) }, context, transaction);
+                } else {
+                    const created = await this.createRecord(targetModel, item, context, transaction);
+                    await instance[accessors.add](created, { transaction });
+                }
+            }
+        }
+    }
+
+    private assertSingleRelationOperation(model: SequelizeModel, assocName: string, operations: any): void {
+        const used = ['create', 'connect', 'disconnect'].filter(key => operations[key] !== undefined && operations[key] !== null);
+        if (used.length > 1) {
+            throw new ValidationFailedError(`Only one of create, connect, disconnect is allowed for ${model.name}.${assocName}`);
+        }
+    }
+
+    /**
+     * Find related rows by primary keys (values or `<Model>Key` objects) through authHandler of the related model
+     */
+    private async findRelatedRows(model: SequelizeModel, keys: any[], context: any, operation: AuthOperation, transaction: any): Promise<any[]> {
+        const ModelClass = this.getModelClass(model.name);
+        const uniqueKeys = new Map<string, any>();
+        for (const key of keys) {
+            const keyWhere = this.keyToWhere(model, key);
+            uniqueKeys.set(this.formatKey(model, keyWhere), keyWhere);
+        }
+        if (uniqueKeys.size === 0) {
+            return [];
+        }
+
+        const [primaryKey] = model.primaryKeyAttributes;
+        const keyWhere = model.primaryKeyAttributes.length > 1
+            ? { [Op.or]: Array.from(uniqueKeys.values()) }
+            : { [primaryKey]: Array.from(uniqueKeys.values()).map(key => key[primaryKey]) };
+
+        const where = await this.authorize(model, context, keyWhere, operation);
+        const rows = await ModelClass.findAll({ where, transaction });
+
+        if (rows.length !== uniqueKeys.size) {
+            const found = new Set(rows.map((row: any) => this.formatKey(model, row.get())));
+            const missing = Array.from(uniqueKeys.keys()).filter(key => !found.has(key));
+            throw new NotFoundError(`${model.name} not found: ${missing.join(', ')}`, { model: model.name, ids: missing });
+        }
+
+        return rows;
+    }
+
+    /**
+     * Run callback inside managed Sequelize transaction when needed.
+     * Transaction of the request (context.transaction) is reused, a nested one would not see its changes.
+     */
+    private async withTransaction<T>(context: any, enabled: boolean, callback: (transaction?: any) => Promise<T>): Promise<T> {
+        if (context?.transaction) {
+            return callback(context.transaction);
+        }
+
+        if (!enabled || !this.sequelize?.transaction) {
+            return callback(undefined);
+        }
+
+        return this.sequelize.transaction((transaction: any) => callback(transaction));
+    }
+
+    /**
+     * Apply inputHandler of the model and ownership of `access` rules to mutation input
+     */
+    private async shapeInput(model: SequelizeModel, context: any, input: any, operation: 'create' | 'update', current: any, owner: Record<string, any>): Promise<any> {
+        const modelConfig = this.modelMetadata.get(model.name)?.modelConfig;
+        let data = { ...(input || {}) };
+
+        if (modelConfig?.inputHandler) {
+            const result = await modelConfig.inputHandler(context?.req, data, operation, current);
+
+            if (result?.success === false) {
+                throw new ForbiddenError();
+            }
+
+            for (const field of result?.forbiddenFields || []) {
+                delete data[field];
+            }
+
+            data = { ...data, ...(result?.data || {}) };
+        }
+
+        // Владелец из access задается при создании и не может быть переназначен при обновлении
+        return { ...data, ...owner };
+    }
+
+    /**
+     * Reject mutation input containing fields the user is not allowed to write
+     */
+    private async assertFieldsWritable(model: SequelizeModel, input: any, parent: any, context: any): Promise<void> {
+        const fieldConfigs = this.modelMetadata.get(model.name)?.fieldConfigs || {};
+
+        for (const fieldName of Object.keys(input || {})) {
+            const rule = fieldConfigs[fieldName]?.auth;
+            if (!(await this.accessControl.isFieldAccessAllowed(rule, context, parent, 'write'))) {
+                throw new ForbiddenError();
+            }
+        }
+    }
+
+    private getLoaderRegistry(context: any): LoaderRegistry {
+        if (!context.loaders) {
+            // Контекст без реестра (например, подписки) живет долго: только батчинг, без кэша
+            context.loaders = new LoaderRegistry({ cache: false });
+        }
+        return context.loaders;
+    }
+
     private getModelClass(modelName: string): any {
         // Get model from Sequelize instance
         if (this.sequelize && this.sequelize.models) {
@@ -785,3 +2768,56 @@ ${subscriptionFields}
     }
 
 }
+
+function pickKey(source: any, attributes: string[]): Record<string, any> {
+    const key: Record<string, any> = {};
+    for (const attribute of attributes) {
+        key[attribute] = source?.[attribute];
+    }
+    return key;
+}
+
+function printQueryField(query: GraphQLQueryHandler): string {
+    const description = query.description ? `  """${query.description}"""\n` : '';
+    return `${description}  ${query.name}${printArgumentDefinitions(query.args)}: ${query.type}${printDeprecation(query.deprecationReason)}\n`;
+}
+
+function printMutationField(mutation: GraphQLMutationHandler): string {
+    const description = mutation.description ? `  """${mutation.description}"""\n` : '';
+    return `${description}  ${mutation.name}${printArgumentDefinitions(getMutationArguments(mutation))}: ${mutation.outputType}${printDeprecation(mutation.deprecationReason)}\n`;
+}
+
+function printSubscriptionField(subscription: GraphQLSubscriptionHandler): string {
+    const description = subscription.description ? `  """${subscription.description}"""\n` : '';
+    return `${description}  ${subscription.name}${printArgumentDefinitions(subscription.args)}: ${subscription.type}${printDeprecation(subscription.deprecationReason)}\n`;
+}
+
+/**
+ * Legacy `inputType` of mutation handler is the first argument `input`
+ */
+function getMutationArguments(mutation: GraphQLMutationHandler): GraphQLArgumentDefinition[] {
+    const args = mutation.args || [];
+    return mutation.inputType ? [{ name: 'input', type: `${mutation.inputType}!` }, ...args] : args;
+}
+
+/**
+ * Getters of the model class and `getterMethods` listed in `exposeGetters` with their GraphQL types
+ */
+function collectGetterFields(model: any, getters: Record<string, string>): Record<string, GQLComputedConfig> {
+    const attributes = model.rawAttributes || {};
+    const getterMethods = model.options?.getterMethods || {};
+
+    const fields: Record<string, GQLComputedConfig> = {};
+    for (const [name, type] of Object.entries(getters)) {
+        // Sequelize определяет аксессоры атрибутов на прототипе модели, их не считаем геттерами
+        const isGetter = !!getterMethods[name] || !!Object.getOwnPropertyDescriptor(model.prototype || {}, name)?.get;
+        if (!isGetter || attributes[name] || model.associations?.[name]) {
+            throw new Error(`exposeGetters of ${model.name}: ${name} is not a getter of the model`);
+        }
+        if (!type) {
+            throw new Error(`exposeGetters of ${model.name}: GraphQL type of ${name} is required`);
+        }
+        fields[name] = { type };
+    }
+    return fields;
+}
@@ -0,0 +1,149 @@
+import DataLoader from 'dataloader';
+import { Op } from 'sequelize';
+
+export interface LoaderRegistryOptions {
+    /**
+     * Cache loaded rows for the lifetime of the registry (default true).
+     * Disable for long-lived contexts such as subscriptions, where only batching is wanted.
+     */
+    cache?: boolean;
+}
+
+/**
+ * Per-request registry of DataLoaders for association fields.
+ *
+ * One loader is created per association, so resolving `author` for 100 posts
+ * issues one query instead of 100. Target where conditions (from authHandler)
+ * must be the same for every load of a given association within the registry.
+ * Loads inside a transaction use their own loaders that read through the transaction
+ * and do not cache, the operation may still change the rows.
+ */
+export class LoaderRegistry {
+    private loaders: Map<string, DataLoader<any, any>> = new Map();
+    private memo: Map<string, Promise<any>> = new Map();
+    private options: LoaderRegistryOptions;
+
+    constructor(options: LoaderRegistryOptions = {}) {
+        this.options = { cache: true, ...options };
+    }
+
+    /**
+     * Memoize async value (e.g. auth where of target model) for the lifetime of the registry
+     */
+    memoize<T>(key: string, factory: () => Promise<T>): Promise<T> {
+        if (!this.memo.has(key)) {
+            this.memo.set(key, factory());
+        }
+        return this.memo.get(key)!;
+    }
+
+    /**
+     * Load association of the parent row through the batched loader
+     */
+    async loadAssociation(association: any, parent: Record<string, any>, where: any = {}, transaction?: any): Promise<any> {
+        const type = association.associationType;
+        const keyAttribute = type === 'BelongsTo' ? association.foreignKey : association.sourceKey;
+        const key = parent?.[keyAttribute];
+        const isList = type === 'HasMany' || type === 'BelongsToMany';
+
+        if (key === null || key === undefined) {
+            return isList ? [] : null;
+        }
+
+        return this.getLoader(association, where, transaction).load(key);
+    }
+
+    private getLoader(association: any, where: any, transaction?: any): DataLoader<any, any> {
+        const loaderKey = transaction
+            ? `${association.source.name}.${association.as}@${transaction.id}`
+            : `${association.source.name}.${association.as}`;
+
+        let loader = this.loaders.get(loaderKey);
+        if (!loader) {
+            loader = new DataLoader(
+                (keys: readonly any[]) => this.batchLoad(association, keys, where, transaction),
+                { cache: this.options.cache && !transaction, cacheKeyFn: (key: any) => String(key) }
+            );
+            this.loaders.set(loaderKey, loader);
+        }
+
+        return loader;
+    }
+
+    private async batchLoad(association: any, keys: readonly any[], where: any, transaction?: any): Promise<any[]> {
+        const target = association.target;
+        const uniqueKeys = Array.from(new Set(keys));
+
+        switch (association.associationType) {
+            case 'BelongsTo': {
+                const rows = await target.findAll({
+                    where: { [Op.and]: [{ [association.targetKey]: uniqueKeys }, where] },
+                    transaction
+                });
+                const byKey = this.groupRows(rows, association.targetKey);
+                return keys.map(key => byKey.get(String(key))?.[0] ?? null);
+            }
+
+            case 'HasOne':
+            case 'HasMany': {
+                const rows = await target.findAll({
+                    where: { [Op.and]: [{ [association.foreignKey]: uniqueKeys }, where] },
+                    order: [[target.primaryKeyAttribute, 'ASC']],
+                    transaction
+                });
+                const byKey = this.groupRows(rows, association.foreignKey);
+
+                if (association.associationType === 'HasOne') {
+                    return keys.map(key => byKey.get(String(key))?.[0] ?? null);
+                }
+                return keys.map(key => byKey.get(String(key)) ?? []);
+            }
+
+            case 'BelongsToMany': {
+                // Два запроса на пачку: связи из промежуточной таблицы и сами записи
+                const throughRows = await association.through.model.findAll({
+                    where: { [association.foreignKey]: uniqueKeys },
+                    attributes: [association.foreignKey, association.otherKey],
+                    raw: true,
+                    transaction
+                });
+
+                const targetIds = Array.from(new Set(throughRows.map((row: any) => row[association.otherKey])));
+                const rows = targetIds.length === 0 ? [] : await target.findAll({
+                    where: { [Op.and]: [{ [association.targetKey]: targetIds }, where] },
+                    order: [[target.primaryKeyAttribute, 'ASC']],
+                    transaction
+                });
+                const byTargetKey = this.groupRows(rows, association.targetKey);
+
+                const bySourceKey = new Map<string, any[]>();
+                for (const throughRow of throughRows) {
+                    const related = byTargetKey.get(String(throughRow[association.otherKey]));
+                    if (!related) {
+                        continue;
+                    }
+
+                    const sourceKey = String(throughRow[association.foreignKey]);
+                    bySourceKey.set(sourceKey, [...(bySourceKey.get(sourceKey) || []), ...related]);
+                }
+
+                return keys.map(key => bySourceKey.get(String(key)) ?? []);
+            }
+
+            default:
+                throw new Error(`Unsupported association type: ${association.associationType}`);
+        }
+    }
+
+    private groupRows(rows: any[], attribute: string): Map<string, any[]> {
+        const groups = new Map<string, any[]>();
+
+        for (const row of rows) {
+            const data = row.toJSON();
+            const key = String(data[attribute]);
+            groups.set(key, [...(groups.get(key) || []), data]);
+        }
+
+        return groups;
+    }
+}
@@ -0,0 +1,140 @@
+import { EventEmitter } from 'events';
+
+/**
+ * Adapter interface for publish/subscribe engines used by GraphQL subscriptions.
+ *
+ * The default implementation is in-memory (single process). To fan out events
+ * between several processes implement this interface on top of Redis, NATS, etc.
+ * and pass it to AppGraphQL through `GraphQLAppConfig.pubsub`.
+ */
+export interface PubSubEngine {
+    publish(triggerName: string, payload: any): Promise<void>;
+    subscribe(triggerName: string, onMessage: (payload: any) => void): Promise<number>;
+    unsubscribe(subId: number): void | Promise<void>;
+}
+
+export type PubSubFilter = (payload: any) => boolean | Promise<boolean>;
+
+/**
+ * In-memory PubSub engine based on EventEmitter
+ */
+export class InMemoryPubSub implements PubSubEngine {
+    private emitter: EventEmitter = new EventEmitter();
+    private subscriptions: Map<number, [string, (payload: any) => void]> = new Map();
+    private nextSubscriptionId: number = 0;
+
+    constructor() {
+        // Каждая активная подписка добавляет слушателя, лимит по умолчанию (10) слишком мал
+        this.emitter.setMaxListeners(0);
+    }
+
+    async publish(triggerName: string, payload: any): Promise<void> {
+        this.emitter.emit(triggerName, payload);
+    }
+
+    async subscribe(triggerName: string, onMessage: (payload: any) => void): Promise<number> {
+        this.emitter.addListener(triggerName, onMessage);
+        const subId = ++this.nextSubscriptionId;
+        this.subscriptions.set(subId, [triggerName, onMessage]);
+        return subId;
+    }
+
+    unsubscribe(subId: number): void {
+        const subscription = this.subscriptions.get(subId);
+        if (!subscription) {
+            return;
+        }
+
+        const [triggerName, onMessage] = subscription;
+        this.emitter.removeListener(triggerName, onMessage);
+        this.subscriptions.delete(subId);
+    }
+}
+
+/**
+ * Create AsyncIterator for GraphQL subscription resolvers on top of any PubSubEngine.
+ * Payloads rejected by the filter are never delivered to the client.
+ */
+export function createPubSubIterator<T = any>(
+    pubsub: PubSubEngine,
+    triggers: string | string[],
+    filter?: PubSubFilter
+): AsyncIterableIterator<T> {
+    const triggerNames = Array.isArray(triggers) ? triggers : [triggers];
+    const pullQueue: Array<(result: IteratorResult<T>) => void> = [];
+    const pushQueue: T[] = [];
+    let running = true;
+
+    const pushValue = async (payload: any) => {
+        if (filter) {
+            try {
+                if (!(await filter(payload))) {
+                    return;
+                }
+            } catch (error) {
+                console.error('❌ Error in subscription filter:', error);
+                return;
+            }
+        }
+
+        if (!running) {
+            return;
+        }
+
+        const resolve = pullQueue.shift();
+        if (resolve) {
+            resolve({ value: payload, done: false });
+        } else {
+            pushQueue.push(payload);
+        }
+    };
+
+    const subscriptionIds = Promise.all(
+        triggerNames.map(triggerName => pubsub.subscribe(triggerName, pushValue))
+    );
+
+    const emptyQueue = async () => {
+        if (!running) {
+            return;
+        }
+        running = false;
+
+        for (const resolve of pullQueue) {
+            resolve({ value: undefined, done: true });
+        }
+        pullQueue.length = 0;
+        pushQueue.length = 0;
+
+        const ids = await subscriptionIds;
+        for (const subId of ids) {
+            await pubsub.unsubscribe(subId);
+        }
+    };
+
+    return {
+        async next(): Promise<IteratorResult<T>> {
+            await subscriptionIds;
+
+            if (!running) {
+                return { value: undefined, done: true };
+            }
+
+            if (pushQueue.length > 0) {
+                return { value: pushQueue.shift() as T, done: false };
+            }
+
+            return new Promise(resolve => pullQueue.push(resolve));
+        },
+        async return(): Promise<IteratorResult<T>> {
+            await emptyQueue();
+            return { value: undefined, done: true };
+        },
+        async throw(error: any): Promise<IteratorResult<T>> {
+            await emptyQueue();
+            return Promise.reject(error);
+        },
+        [Symbol.asyncIterator]() {
+            return this;
+        }
+    };
+}
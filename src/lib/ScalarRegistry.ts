@@ -0,0 +1,81 @@
+import { GraphQLScalarType } from 'graphql';
+import { BUILT_IN_SCALARS, SEQUELIZE_SCALAR_TYPES, getSequelizeTypeKey } from '../utils/scalars';
+
+export interface ScalarRegistrationOptions {
+    /**
+     * Sequelize data type keys mapped to the scalar, e.g. `['CITEXT']`
+     */
+    sequelizeTypes?: string[];
+}
+
+/**
+ * Custom scalar registered by an application, optionally mapped to Sequelize data types
+ */
+export interface GraphQLScalarDefinition extends ScalarRegistrationOptions {
+    scalar: GraphQLScalarType;
+}
+
+/**
+ * Scalars of the schema (built-in and registered by applications)
+ * and mapping of Sequelize data types to GraphQL types
+ */
+export class ScalarRegistry {
+    private scalars: Map<string, GraphQLScalarType> = new Map();
+    private typeMap: Record<string, string> = { ...SEQUELIZE_SCALAR_TYPES };
+
+    constructor() {
+        for (const scalar of BUILT_IN_SCALARS) {
+            this.register(scalar);
+        }
+    }
+
+    /**
+     * Register scalar, the one registered later with the same name replaces the previous
+     */
+    register(scalar: GraphQLScalarType, options: ScalarRegistrationOptions = {}): void {
+        // instanceof не подходит: у приложения может быть своя копия graphql
+        if (!scalar || typeof scalar.name !== 'string' || typeof scalar.serialize !== 'function') {
+            throw new Error('Scalar must be an instance of GraphQLScalarType');
+        }
+
+        if (this.scalars.has(scalar.name) && this.scalars.get(scalar.name) !== scalar) {
+            console.warn(`⚠️ Scalar ${scalar.name} is registered twice, the last one is used`);
+        }
+
+        this.scalars.set(scalar.name, scalar);
+        for (const sequelizeType of options.sequelizeTypes || []) {
+            this.typeMap[sequelizeType] = scalar.name;
+        }
+    }
+
+    has(name: string): boolean {
+        return this.scalars.has(name);
+    }
+
+    get(name: string): GraphQLScalarType | undefined {
+        return this.scalars.get(name);
+    }
+
+    getNames(): string[] {
+        return Array.from(this.scalars.keys());
+    }
+
+    /**
+     * GraphQL type of Sequelize attribute, VIRTUAL attributes use their return type
+     */
+    getTypeName(attribute: any): string {
+        // DataTypes.VIRTUAL(DataTypes.INTEGER, [...]) отдается с типом возвращаемого значения
+        if (getSequelizeTypeKey(attribute) === 'VIRTUAL' && attribute.type.returnType) {
+            return this.getTypeName({ type: attribute.type.returnType });
+        }
+        return this.typeMap[getSequelizeTypeKey(attribute)] || 'String';
+    }
+
+    getTypeDefs(): string {
+        return this.getNames().map(name => `scalar ${name}\n`).join('');
+    }
+
+    getResolvers(): Record<string, GraphQLScalarType> {
+        return Object.fromEntries(this.scalars);
+    }
+}
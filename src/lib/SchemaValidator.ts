@@ -0,0 +1,268 @@
+import { Kind, parse, DefinitionNode } from 'graphql';
+import type { GraphQLResolver } from './types';
+
+/**
+ * 'fail' stops mounting on any diagnostic, 'warn' only logs them, 'off' skips validation
+ */
+export type SchemaValidationPolicy = 'fail' | 'warn' | 'off';
+
+export type SchemaDiagnosticCode =
+    | 'INVALID_SDL'
+    | 'DUPLICATE_TYPE'
+    | 'DUPLICATE_FIELD'
+    | 'RESOLVER_OVERRIDE'
+    | 'RESOLVER_WITHOUT_FIELD'
+    | 'FIELD_WITHOUT_RESOLVER'
+    | 'INVALID_ARGUMENT';
+
+export interface SchemaDiagnostic {
+    code: SchemaDiagnosticCode;
+    message: string;
+    /**
+     * `Type` or `Type.field` the diagnostic is about
+     */
+    coordinate?: string;
+    /**
+     * Contributors involved (app ids), in registration order
+     */
+    sources: string[];
+}
+
+/**
+ * Part of the schema added by one contributor: generated model types or
+ * custom types, operations and resolvers of an app
+ */
+export interface SchemaContribution {
+    source: string;
+    typeDefs?: string;
+    resolvers?: GraphQLResolver;
+    /**
+     * Source of individual type definitions, e.g. app of the model the type is generated for
+     */
+    typeSources?: Record<string, string>;
+}
+
+const ROOT_TYPES = new Set(['Query', 'Mutation', 'Subscription']);
+
+/**
+ * Error thrown at mount when validation policy is 'fail'
+ */
+export class SchemaValidationError extends Error {
+    diagnostics: SchemaDiagnostic[];
+
+    constructor(diagnostics: SchemaDiagnostic[]) {
+        super(`GraphQL schema has ${diagnostics.length} conflict(s):\n${formatSchemaDiagnostics(diagnostics)}`);
+        this.name = 'SchemaValidationError';
+        this.diagnostics = diagnostics;
+    }
+}
+
+/**
+ * Readable list of diagnostics, one per line
+ */
+export function formatSchemaDiagnostics(diagnostics: SchemaDiagnostic[]): string {
+    return diagnostics.map(diagnostic => `   [${diagnostic.code}] ${diagnostic.message}`).join('\n');
+}
+
+function unique(sources: string[]): string[] {
+    return Array.from(new Set(sources));
+}
+
+function describeSources(sources: string[]): string {
+    return unique(sources).join(', ');
+}
+
+/**
+ * Checks schema assembled from several contributions before it is built:
+ * duplicate type and field definitions, resolvers replaced by other contributors,
+ * resolvers without field and root fields without resolver.
+ * Contributions are merged in the order they were added, later resolvers win.
+ */
+export class SchemaValidator {
+    private contributions: SchemaContribution[] = [];
+
+    add(contribution: SchemaContribution): void {
+        this.contributions.push(contribution);
+    }
+
+    validate(): SchemaDiagnostic[] {
+        const diagnostics: SchemaDiagnostic[] = [];
+        // Имя типа -> источники определений (расширения `extend type` не считаются)
+        const typeSources = new Map<string, string[]>();
+        const typeKinds = new Map<string, Kind>();
+        // `Type.field` -> источники определений поля
+        const fieldSources = new Map<string, string[]>();
+
+        for (const contribution of this.contributions) {
+            if (!contribution.typeDefs) {
+                continue;
+            }
+
+            let definitions: readonly DefinitionNode[];
+            try {
+                definitions = parse(contribution.typeDefs).definitions;
+            } catch (error: any) {
+                diagnostics.push({
+                    code: 'INVALID_SDL',
+                    message: `Type definitions from ${contribution.source} cannot be parsed: ${error.message}`,
+                    sources: [contribution.source]
+                });
+                continue;
+            }
+
+            for (const definition of definitions) {
+                this.collectDefinition(definition, contribution, typeSources, typeKinds, fieldSources);
+            }
+        }
+
+        for (const [typeName, sources] of typeSources) {
+            if (sources.length > 1) {
+                diagnostics.push({
+                    code: 'DUPLICATE_TYPE',
+                    message: `Type ${typeName} is defined more than once (${describeSources(sources)})`,
+                    coordinate: typeName,
+                    sources: unique(sources)
+                });
+            }
+        }
+
+        for (const [coordinate, sources] of fieldSources) {
+            const typeName = coordinate.split('.')[0];
+            // Поля продублированного типа уже покрыты DUPLICATE_TYPE
+            if (sources.length > 1 && (typeSources.get(typeName)?.length || 0) <= 1) {
+                diagnostics.push({
+                    code: 'DUPLICATE_FIELD',
+                    message: `Field ${coordinate} is defined more than once (${describeSources(sources)})`,
+                    coordinate,
+                    sources: unique(sources)
+                });
+            }
+        }
+
+        diagnostics.push(...this.validateResolvers(typeKinds, fieldSources));
+        return diagnostics;
+    }
+
+    private collectDefinition(
+        definition: DefinitionNode,
+        contribution: SchemaContribution,
+        typeSources: Map<string, string[]>,
+        typeKinds: Map<string, Kind>,
+        fieldSources: Map<string, string[]>
+    ): void {
+        if (!('name' in definition) || !definition.name) {
+            return;
+        }
+
+        const typeName = definition.name.value;
+        const source = contribution.typeSources?.[typeName] || contribution.source;
+
+        switch (definition.kind) {
+            case Kind.OBJECT_TYPE_DEFINITION:
+            case Kind.INTERFACE_TYPE_DEFINITION:
+            case Kind.INPUT_OBJECT_TYPE_DEFINITION:
+            case Kind.ENUM_TYPE_DEFINITION:
+            case Kind.SCALAR_TYPE_DEFINITION:
+            case Kind.UNION_TYPE_DEFINITION:
+                typeSources.set(typeName, [...(typeSources.get(typeName) || []), source]);
+                typeKinds.set(typeName, definition.kind);
+                break;
+            case Kind.OBJECT_TYPE_EXTENSION:
+            case Kind.INTERFACE_TYPE_EXTENSION:
+            case Kind.INPUT_OBJECT_TYPE_EXTENSION:
+                break;
+            default:
+                return;
+        }
+
+        if ('fields' in definition && definition.fields) {
+            for (const field of definition.fields) {
+                const coordinate = `${typeName}.${field.name.value}`;
+                fieldSources.set(coordinate, [...(fieldSources.get(coordinate) || []), source]);
+            }
+        }
+    }
+
+    private validateResolvers(typeKinds: Map<string, Kind>, fieldSources: Map<string, string[]>): SchemaDiagnostic[] {
+        const diagnostics: SchemaDiagnostic[] = [];
+        // `Type.field` -> резолверы и их источники в порядке слияния
+        const resolverSources = new Map<string, Array<{ source: string, resolver: unknown }>>();
+
+        for (const contribution of this.contributions) {
+            for (const [typeName, typeResolvers] of Object.entries(contribution.resolvers || {})) {
+                if (!typeResolvers) {
+                    continue;
+                }
+
+                const kind = typeKinds.get(typeName);
+                if (!kind) {
+                    // Пустые Query/Mutation/Subscription есть в каждом наборе резолверов
+                    if (Object.keys(typeResolvers).length > 0) {
+                        diagnostics.push({
+                            code: 'RESOLVER_WITHOUT_FIELD',
+                            message: `Resolvers from ${contribution.source} are defined for unknown type ${typeName}`,
+                            coordinate: typeName,
+                            sources: [contribution.source]
+                        });
+                    }
+                    continue;
+                }
+
+                // Скаляры и значения enum не являются резолверами полей
+                if (kind === Kind.SCALAR_TYPE_DEFINITION || kind === Kind.ENUM_TYPE_DEFINITION) {
+                    continue;
+                }
+
+                for (const [fieldName, resolver] of Object.entries(typeResolvers)) {
+                    if (fieldName.startsWith('__') || resolver === undefined) {
+                        continue;
+                    }
+
+                    const coordinate = `${typeName}.${fieldName}`;
+                    if (!fieldSources.has(coordinate)) {
+                        diagnostics.push({
+                            code: 'RESOLVER_WITHOUT_FIELD',
+                            message: `Resolver ${coordinate} from ${contribution.source} has no field in the schema`,
+                            coordinate,
+                            sources: [contribution.source]
+                        });
+                        continue;
+                    }
+
+                    // Тот же резолвер, добавленный повторно, ничего не заменяет
+                    const previous = resolverSources.get(coordinate) || [];
+                    if (previous.length === 0 || previous[previous.length - 1].resolver !== resolver) {
+                        resolverSources.set(coordinate, [...previous, { source: contribution.source, resolver }]);
+                    }
+                }
+            }
+        }
+
+        for (const [coordinate, entries] of resolverSources) {
+            const sources = entries.map(entry => entry.source);
+            // Для продублированного поля повторный резолвер ожидаем, ошибка уже в DUPLICATE_FIELD
+            if (sources.length > 1 && (fieldSources.get(coordinate)?.length || 0) <= 1) {
+                diagnostics.push({
+                    code: 'RESOLVER_OVERRIDE',
+                    message: `Resolver ${coordinate} is replaced: ${sources.join(' -> ')}, the last one is used`,
+                    coordinate,
+                    sources: unique(sources)
+                });
+            }
+        }
+
+        for (const [coordinate, sources] of fieldSources) {
+            const [typeName, fieldName] = coordinate.split('.');
+            if (ROOT_TYPES.has(typeName) && fieldName !== '_empty' && !resolverSources.has(coordinate)) {
+                diagnostics.push({
+                    code: 'FIELD_WITHOUT_RESOLVER',
+                    message: `Field ${coordinate} from ${describeSources(sources)} has no resolver`,
+                    coordinate,
+                    sources: unique(sources)
+                });
+            }
+        }
+
+        return diagnostics;
+    }
+}
@@ -0,0 +1,167 @@
+import type { IncomingMessage, Server as HttpServer } from 'http';
+import type { Duplex } from 'stream';
+import { WebSocketServer, WebSocket } from 'ws';
+import { makeServer, handleProtocols, CloseCode } from 'graphql-ws';
+import { parse, GraphQLError } from 'graphql';
+import type { GraphQLSchema, DocumentNode, GraphQLFormattedError } from 'graphql';
+
+/**
+ * Upgrade request of the subscription connection, used as `req` of the GraphQL context.
+ * `connectionParams` are sent by the client in connection_init, `user` is set by `onConnect`.
+ */
+export interface SubscriptionRequest extends IncomingMessage {
+    connectionParams?: Record<string, unknown>;
+    user?: any;
+}
+
+export interface SubscriptionServerOptions {
+    schema: GraphQLSchema;
+    path: string;
+    /**
+     * Check the connection before any operation, e.g. authenticate `request.connectionParams`
+     * and set `request.user`. Returning false rejects the connection.
+     */
+    onConnect?: (request: SubscriptionRequest) => boolean | void | Promise<boolean | void>;
+    /**
+     * Build GraphQL context for every subscription operation
+     */
+    context: (request: SubscriptionRequest) => any;
+    /**
+     * Extra check of subscription operation before execution (e.g. query limits)
+     */
+    validateOperation?: (document: DocumentNode, operationName: string | null | undefined, variables: Record<string, unknown>) => GraphQLError | null;
+    /**
+     * Format errors of subscription events the same way as HTTP responses
+     */
+    formatError?: (formattedError: GraphQLFormattedError, error: unknown) => GraphQLFormattedError;
+    /**
+     * Interval of keep-alive pings in ms, 0 disables pings
+     */
+    keepAlive?: number;
+}
+
+/**
+ * GraphQL over WebSocket transport (graphql-transport-ws protocol) for subscriptions
+ */
+export class SubscriptionServer {
+    private wsServer: WebSocketServer;
+    private httpServer: HttpServer | null = null;
+    private options: SubscriptionServerOptions;
+    private pingInterval: NodeJS.Timeout | null = null;
+
+    constructor(options: SubscriptionServerOptions) {
+        this.options = { keepAlive: 12_000, ...options };
+        this.wsServer = new WebSocketServer({ noServer: true, handleProtocols: (protocols) => handleProtocols(protocols) });
+
+        const graphqlWs = makeServer<Record<string, unknown> | undefined, { socket: WebSocket, request: SubscriptionRequest }>({
+            schema: options.schema,
+            onConnect: async (ctx) => {
+                const request: SubscriptionRequest = ctx.extra.request;
+                request.connectionParams = ctx.connectionParams;
+
+                if (options.onConnect && (await options.onConnect(request)) === false) {
+                    return false;
+                }
+            },
+            context: (ctx) => options.context(ctx.extra.request),
+            onSubscribe: (ctx, id, payload) => {
+                if (!options.validateOperation) {
+                    return;
+                }
+
+                let document: DocumentNode;
+                try {
+                    document = parse(payload.query);
+                } catch {
+                    // Синтаксические ошибки вернет стандартная обработка graphql-ws
+                    return;
+                }
+
+                const error = options.validateOperation(document, payload.operationName, payload.variables || {});
+                return error ? [error] : undefined;
+            },
+            onNext: (ctx, id, payload, args, result) => {
+                if (!options.formatError || !result.errors?.length) {
+                    return;
+                }
+
+                return {
+                    ...result,
+                    errors: result.errors.map(error => options.formatError!(error.toJSON(), error))
+                } as any;
+            }
+        });
+
+        this.wsServer.on('connection', (socket: WebSocket, request: IncomingMessage) => {
+            const closed = graphqlWs.opened(
+                {
+                    protocol: socket.protocol,
+                    send: (data) => new Promise((resolve, reject) => {
+                        socket.send(data, (error) => (error ? reject(error) : resolve()));
+                    }),
+                    close: (code, reason) => socket.close(code, reason),
+                    onMessage: (cb) => socket.on('message', async (event) => {
+                        try {
+                            await cb(event.toString());
+                        } catch (error) {
+                            console.error('❌ GraphQL subscription error:', error);
+                            socket.close(CloseCode.InternalServerError, (error as Error).message);
+                        }
+                    })
+                },
+                { socket, request }
+            );
+
+            socket.once('close', (code, reason) => closed(code, reason.toString()));
+        });
+
+        if (this.options.keepAlive) {
+            this.pingInterval = setInterval(() => {
+                for (const client of this.wsServer.clients) {
+                    if (client.readyState === WebSocket.OPEN) {
+                        client.ping();
+                    }
+                }
+            }, this.options.keepAlive);
+            this.pingInterval.unref?.();
+        }
+    }
+
+    /**
+     * Attach to HTTP server and take over upgrade requests for the subscription path
+     */
+    attach(httpServer: HttpServer): void {
+        this.httpServer = httpServer;
+        httpServer.on('upgrade', this.handleUpgrade);
+    }
+
+    handleUpgrade = (request: IncomingMessage, socket: Duplex, head: Buffer): void => {
+        const { pathname } = new URL(request.url || '/', 'http://localhost');
+        if (pathname !== this.options.path) {
+            // Чужие upgrade запросы оставляем другим обработчикам
+            return;
+        }
+
+        this.wsServer.handleUpgrade(request, socket, head, (ws) => {
+            this.wsServer.emit('connection', ws, request);
+        });
+    };
+
+    async close(): Promise<void> {
+        if (this.pingInterval) {
+            clearInterval(this.pingInterval);
+            this.pingInterval = null;
+        }
+
+        if (this.httpServer) {
+            this.httpServer.off('upgrade', this.handleUpgrade);
+            this.httpServer = null;
+        }
+
+        for (const client of this.wsServer.clients) {
+            client.close(1001, 'Going away');
+        }
+
+        await new Promise<void>((resolve) => this.wsServer.close(() => resolve()));
+    }
+}
@@ -0,0 +1,149 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { parse, getOperationAST } from 'graphql';
+import type { OperationTypeNode } from 'graphql';
+
+/**
+ * - 'none': resolvers manage transactions themselves
+ * - 'mutation': every mutation operation runs in one transaction
+ * - 'request': every operation (queries included) runs in one transaction
+ */
+export type TransactionMode = 'none' | 'mutation' | 'request';
+
+export interface TransactionManagerOptions {
+    mode?: TransactionMode;
+    /**
+     * Options passed to `sequelize.transaction()`, e.g. isolationLevel
+     */
+    transactionOptions?: Record<string, any>;
+    /**
+     * Register CLS namespace in Sequelize so calls without `transaction` option join the operation
+     * transaction (default false). `Sequelize.useCLS` is process-wide: it affects every Sequelize instance,
+     * and a namespace registered by the application is kept as is.
+     */
+    cls?: boolean;
+}
+
+/**
+ * CLS namespace for Sequelize (`Sequelize.useCLS`) built on AsyncLocalStorage,
+ * so queries inside resolvers and hooks pick up the current transaction without passing it
+ */
+export class AsyncLocalNamespace {
+    private storage = new AsyncLocalStorage<Map<string, any>>();
+
+    get(key: string): any {
+        return this.storage.getStore()?.get(key);
+    }
+
+    set(key: string, value: any): any {
+        this.storage.getStore()?.set(key, value);
+        return value;
+    }
+
+    run(fn: (context: Map<string, any>) => any): any {
+        // Вложенный контекст наследует значения внешнего, но не меняет их
+        const context = new Map(this.storage.getStore() || []);
+        return this.storage.run(context, () => fn(context));
+    }
+
+    bind<T extends (...args: any[]) => any>(fn: T): T {
+        return AsyncLocalStorage.bind(fn);
+    }
+}
+
+/**
+ * Result carrier: operation finished with errors, transaction must be rolled back
+ * but the result is still returned to the client
+ */
+class RollbackSignal<T> extends Error {
+    constructor(public result: T) {
+        super('Transaction rolled back');
+    }
+}
+
+/**
+ * Wraps GraphQL operations into managed Sequelize transactions according to the mode
+ */
+export class TransactionManager {
+    private sequelize: any;
+    private options: Required<TransactionManagerOptions>;
+
+    constructor(sequelize: any, options: TransactionManagerOptions = {}) {
+        this.sequelize = sequelize;
+        this.options = { mode: 'none', transactionOptions: {}, cls: false, ...options };
+
+        if (this.options.mode !== 'none' && this.options.cls) {
+            TransactionManager.enableCLS(sequelize);
+        }
+    }
+
+    /**
+     * Register CLS namespace in Sequelize unless the application already did it
+     */
+    static enableCLS(sequelize: any): void {
+        const SequelizeClass = sequelize?.constructor;
+        if (SequelizeClass && !SequelizeClass._cls) {
+            SequelizeClass.useCLS(new AsyncLocalNamespace());
+        }
+    }
+
+    getMode(): TransactionMode {
+        return this.options.mode;
+    }
+
+    /**
+     * Should the operation run in a transaction
+     */
+    shouldWrap(operationType: OperationTypeNode | 'query' | 'mutation' | 'subscription' | null): boolean {
+        switch (this.options.mode) {
+            case 'request':
+                return operationType === 'query' || operationType === 'mutation';
+            case 'mutation':
+                return operationType === 'mutation';
+            default:
+                return false;
+        }
+    }
+
+    /**
+     * Type of the operation in the request, null when the query cannot be parsed
+     * (GraphQL execution reports syntax errors itself)
+     */
+    getOperationType(query: string, operationName?: string | null): OperationTypeNode | null {
+        try {
+            return getOperationAST(parse(query), operationName || undefined)?.operation ?? null;
+        } catch {
+            return null;
+        }
+    }
+
+    /**
+     * Run callback in a transaction placed on `context.transaction`.
+     * Commits on success, rolls back when callback throws or `hasErrors(result)` is true;
+     * the result of a rolled back transaction is passed through `onRollback`.
+     */
+    async run<T>(
+        context: any,
+        callback: () => Promise<T>,
+        hasErrors: (result: T) => boolean = () => false,
+        onRollback: (result: T) => T = (result) => result
+    ): Promise<T> {
+        try {
+            return await this.sequelize.transaction(this.options.transactionOptions, async (transaction: any) => {
+                context.transaction = transaction;
+
+                const result = await callback();
+                if (hasErrors(result)) {
+                    throw new RollbackSignal(result);
+                }
+                return result;
+            });
+        } catch (error) {
+            if (error instanceof RollbackSignal) {
+                return onRollback(error.result);
+            }
+            throw error;
+        } finally {
+            delete context.transaction;
+        }
+    }
+}
@@ -1,10 +1,34 @@
+export type GraphQLFieldResolver = (parent: any, args: any, context: any, info: any) => any;
+
+export interface GraphQLSubscriptionResolver {
+    subscribe: (parent: any, args: any, context: any, info: any) => AsyncIterator<any> | Promise<AsyncIterator<any>>;
+    resolve?: GraphQLFieldResolver;
+}
+
 export interface GraphQLResolver {
-    Query?: { [key: string]: (parent: any, args: any, context: any, info: any) => any };
-    Mutation?: { [key: string]: (parent: any, args: any, context: any, info: any) => any };
-    Subscription?: { [key: string]: (parent: any, args: any, context: any, info: any) => any };
-    [typeName: string]: { [key: string]: (parent: any, args: any, context: any, info: any) => any } | undefined;
+    Query?: { [key: string]: GraphQLFieldResolver };
+    Mutation?: { [key: string]: GraphQLFieldResolver };
+    Subscription?: { [key: string]: GraphQLFieldResolver | GraphQLSubscriptionResolver };
+    [typeName: string]: { [key: string]: GraphQLFieldResolver | GraphQLSubscriptionResolver } | undefined;
 }
 
+export type ModelEvent = 'created' | 'updated' | 'deleted';
+
+/**
+ * Extract roles of the current user from request
+ */
+export type RoleResolver = (req: any) => string[] | Promise<string[]>;
+
+/**
+ * Extract id of the current user from request, used by `owner` access rules
+ */
+export type UserIdResolver = (req: any) => any;
+
+/**
+ * Maps database value of ENUM column to GraphQL enum value name
+ */
+export type EnumValueNaming = (value: string) => string;
+
 export interface GraphQLType {
     name: string;
     definition: string;
@@ -16,6 +40,47 @@ export interface SequelizeModel {
     associations: { [key: string]: any };
     tableName: string;
     primaryKeyAttribute: string;
+    /**
+     * All primary key attributes, more than one for composite keys
+     */
+    primaryKeyAttributes: string[];
+    /**
+     * createdAt/updatedAt/deletedAt attributes managed by Sequelize
+     */
+    timestampAttributes?: string[];
+    /**
+     * deletedAt attribute of paranoid models, rows are soft deleted
+     */
+    deletedAtAttribute?: string;
+}
+
+export interface GraphQLHelperOptions {
+    /**
+     * Translate requested association subfields into Sequelize `include`
+     * and requested scalar subfields into `attributes`
+     */
+    eagerLoading?: boolean;
+    /**
+     * Maximum depth of generated include tree, deeper associations are loaded by DataLoaders
+     */
+    maxIncludeDepth?: number;
+    /**
+     * Roles of the current user for `access` and field `auth` rules (default: `req.user.roles` or `req.user.role`)
+     */
+    roleResolver?: RoleResolver;
+    /**
+     * Id of the current user for `owner` access rules (default: `req.user.id`)
+     */
+    userIdResolver?: UserIdResolver;
+    /**
+     * Generate single `<Model>Input` for create and update mutations (pre Create/Update input schemas)
+     */
+    legacyInputTypes?: boolean;
+    /**
+     * Name of GraphQL enum value for database value of ENUM column
+     * (default: invalid characters replaced with "_")
+     */
+    enumValueNaming?: EnumValueNaming;
 }
 
 export interface GraphQLFieldType {
@@ -37,24 +102,57 @@ export interface IGraphQLModelConfig {
     customFields?: { [key: string]: GraphQLFieldType };
 }
 
+/**
+ * Argument of custom query, mutation or subscription
+ */
+export interface GraphQLArgumentDefinition {
+    name: string;
+    /**
+     * Input type in SDL notation, e.g. `String!` or `[ID!]`
+     */
+    type: string;
+    /**
+     * JS value printed as GraphQL literal (strings are quoted)
+     */
+    defaultValue?: unknown;
+    description?: string;
+}
+
 export interface GraphQLQueryHandler {
     name: string;
     type: string;
+    /**
+     * Arguments, checked against known types when the handler is added
+     */
+    args?: GraphQLArgumentDefinition[];
     resolver: (parent: any, args: any, context: any, info: any) => any;
     description?: string;
+    deprecationReason?: string;
 }
 
 export interface GraphQLMutationHandler {
     name: string;
+    /**
+     * Type of the single `input` argument, rendered before `args`
+     */
     inputType?: string;
     outputType: string;
+    args?: GraphQLArgumentDefinition[];
     resolver: (parent: any, args: any, context: any, info: any) => any;
     description?: string;
+    deprecationReason?: string;
 }
 
 export interface GraphQLSubscriptionHandler {
     name: string;
     type: string;
+    args?: GraphQLArgumentDefinition[];
     resolver: (parent: any, args: any, context: any, info: any) => any;
+    /**
+     * Returns AsyncIterator with events (e.g. createPubSubIterator(context.pubsub, 'trigger')).
+     * When set, `resolver` maps each event payload to the field value.
+     */
+    subscribe?: (parent: any, args: any, context: any, info: any) => AsyncIterator<any> | Promise<AsyncIterator<any>>;
     description?: string;
+    deprecationReason?: string;
 }
@@ -0,0 +1,101 @@
+import { fn, col, cast } from 'sequelize';
+
+export type AggregateFunction = 'sum' | 'avg' | 'min' | 'max';
+
+/**
+ * - 'int' / 'float': values fit into JS numbers
+ * - 'exact': BIGINT/DECIMAL, returned as strings to keep precision
+ * - 'date': only min/max are available
+ */
+export type AggregateKind = 'int' | 'float' | 'exact' | 'date';
+
+export const AGGREGATE_FUNCTIONS: AggregateFunction[] = ['sum', 'avg', 'min', 'max'];
+
+const aggregateKinds: Record<string, AggregateKind> = {
+  TINYINT: 'int',
+  SMALLINT: 'int',
+  MEDIUMINT: 'int',
+  INTEGER: 'int',
+  FLOAT: 'float',
+  REAL: 'float',
+  DOUBLE: 'float',
+  BIGINT: 'exact',
+  DECIMAL: 'exact',
+  DATE: 'date',
+  DATEONLY: 'date',
+  TIME: 'date'
+};
+
+/**
+ * Kind of Sequelize attribute for aggregation, null when it cannot be aggregated
+ */
+export function getAggregateKind(attribute: any): AggregateKind | null {
+  const sequelizeType = attribute?.type?.key || attribute?.type?.constructor?.name;
+  return aggregateKinds[sequelizeType] || null;
+}
+
+export function isAggregateSupported(kind: AggregateKind, aggregate: AggregateFunction): boolean {
+  return kind !== 'date' || aggregate === 'min' || aggregate === 'max';
+}
+
+/**
+ * GraphQL type of aggregate result. Sum of integers may overflow Int, so it is Float,
+ * exact and date aggregates keep the scalar of the attribute (average of BIGINT is Decimal)
+ */
+export function getAggregateGraphQLType(kind: AggregateKind, aggregate: AggregateFunction, fieldType: string): string {
+  switch (kind) {
+    case 'int':
+      return aggregate === 'min' || aggregate === 'max' ? 'Int' : 'Float';
+    case 'float':
+      return 'Float';
+    case 'exact':
+      return aggregate === 'avg' ? 'Decimal' : fieldType;
+    default:
+      return fieldType;
+  }
+}
+
+/**
+ * Sequelize attribute `[fn(column), alias]` for the aggregate.
+ * With `castDialect` the result is cast to text in SQL, so drivers returning numbers
+ * (sqlite, mssql) do not round BIGINT/DECIMAL values.
+ */
+export function buildAggregateAttribute(modelName: string, column: string, aggregate: AggregateFunction | 'count', alias: string, castDialect?: string): [any, string] {
+  const value = fn(aggregate.toUpperCase(), col(`${modelName}.${column}`));
+  if (!castDialect) {
+    return [value, alias];
+  }
+
+  return [cast(value, getTextCastType(castDialect)), alias];
+}
+
+function getTextCastType(dialect: string): string {
+  switch (dialect) {
+    case 'mysql':
+    case 'mariadb':
+      return 'CHAR';
+    case 'mssql':
+      return 'VARCHAR(64)';
+    default:
+      return 'TEXT';
+  }
+}
+
+/**
+ * Convert raw driver value: drivers return BIGINT/DECIMAL aggregates as strings or numbers,
+ * dates are left to the date scalars
+ */
+export function formatAggregateValue(kind: AggregateKind, value: any): any {
+  if (value === null || value === undefined) {
+    return null;
+  }
+
+  switch (kind) {
+    case 'exact':
+      return String(value);
+    case 'date':
+      return value;
+    default:
+      return Number(value);
+  }
+}
@@ -0,0 +1,131 @@
+import { Op } from 'sequelize';
+import { ValidationFailedError } from '../lib/GraphQLErrors';
+
+export type OrderDirection = 'ASC' | 'DESC';
+export type OrderKey = [field: string, direction: OrderDirection];
+
+/**
+ * Value of generated `<Model>OrderBy` input
+ */
+export interface OrderByInput {
+  field: string;
+  direction?: OrderDirection;
+  nulls?: 'FIRST' | 'LAST' | null;
+}
+
+export interface ConnectionArgs {
+  first?: number | null;
+  after?: string | null;
+  last?: number | null;
+  before?: string | null;
+}
+
+export interface PageInfo {
+  hasNextPage: boolean;
+  hasPreviousPage: boolean;
+  startCursor: string | null;
+  endCursor: string | null;
+}
+
+/**
+ * Курсор - base64 от JSON массива значений ключей сортировки.
+ * Даты кодируются отдельно, чтобы при декодировании вернуть Date и не сравнивать строки.
+ */
+export function encodeCursor(row: Record<string, any>, orderKeys: OrderKey[]): string {
+  const values = orderKeys.map(([field]) => {
+    const value = row[field];
+    return value instanceof Date ? { $date: value.toISOString() } : value;
+  });
+
+  return Buffer.from(JSON.stringify(values), 'utf8').toString('base64url');
+}
+
+export function decodeCursor(cursor: string, orderKeys: OrderKey[]): any[] {
+  let values: any;
+  try {
+    values = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new ValidationFailedError('Invalid cursor');
+  }
+
+  // Курсор, выданный для другой сортировки, использовать нельзя
+  if (!Array.isArray(values) || values.length !== orderKeys.length) {
+    throw new ValidationFailedError('Invalid cursor');
+  }
+
+  return values.map(value => (value && typeof value === 'object' && '$date' in value ? new Date(value.$date) : value));
+}
+
+/**
+ * Dialects sorting NULL as the largest value when NULLS FIRST/LAST is not specified,
+ * the others (MySQL, MariaDB, SQLite, MSSQL) sort it as the smallest one
+ */
+const NULLS_LARGEST_DIALECTS = new Set(['postgres', 'oracle', 'db2', 'snowflake']);
+
+export function isNullLargest(dialect: string | undefined): boolean {
+  return NULLS_LARGEST_DIALECTS.has(dialect || '');
+}
+
+function isNullValue(value: any): boolean {
+  return value === null || value === undefined;
+}
+
+export interface KeysetOptions {
+  /**
+   * Rows before the cursor instead of after it
+   */
+  before?: boolean;
+  /**
+   * NULL is sorted as the largest value (see `isNullLargest`)
+   */
+  nullLargest?: boolean;
+  /**
+   * Whether the sort column may contain NULL, all columns are nullable by default
+   */
+  isNullable?: (field: string) => boolean;
+}
+
+/**
+ * Keyset условие "строго после курсора" в порядке orderKeys:
+ * (k1 > v1) OR (k1 = v1 AND k2 > v2) OR ...
+ * Для DESC ключей сравнение инвертируется, `before` инвертирует его еще раз.
+ * Сравнение с NULL всегда ложно, поэтому NULL строки отбираются через IS NULL / IS NOT NULL
+ * в соответствии с их местом в сортировке диалекта.
+ */
+export function buildKeysetWhere(orderKeys: OrderKey[], values: any[], options: KeysetOptions = {}): any {
+  const { before = false, nullLargest = false, isNullable = () => true } = options;
+  const alternatives: any[] = [];
+
+  for (let i = 0; i < orderKeys.length; i++) {
+    const condition: Record<string, any> = {};
+
+    for (let j = 0; j < i; j++) {
+      condition[orderKeys[j][0]] = isNullValue(values[j]) ? { [Op.is]: null } : { [Op.eq]: values[j] };
+    }
+
+    const [field, direction] = orderKeys[i];
+    // Обход идет к большим значениям
+    const forward = (direction === 'ASC') !== before;
+    // NULL строки идут после всех значений в порядке обхода
+    const nullsAfter = forward === nullLargest;
+
+    if (isNullValue(values[i])) {
+      // После NULL по этому ключу есть только строки с тем же NULL, их различают следующие ключи
+      if (nullsAfter) {
+        continue;
+      }
+      condition[field] = { [Op.not]: null };
+    } else {
+      const comparison = { [forward ? Op.gt : Op.lt]: values[i] };
+      condition[field] = nullsAfter && isNullable(field) ? { [Op.or]: [comparison, { [Op.is]: null }] } : comparison;
+    }
+
+    alternatives.push(condition);
+  }
+
+  return { [Op.or]: alternatives };
+}
+
+export function invertOrder(orderKeys: OrderKey[]): OrderKey[] {
+  return orderKeys.map(([field, direction]) => [field, direction === 'ASC' ? 'DESC' : 'ASC']);
+}
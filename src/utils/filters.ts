@@ -0,0 +1,349 @@
+import { Op } from 'sequelize';
+import { ValidationFailedError } from '../lib/GraphQLErrors';
+
+/**
+ * Общие input типы с операторами для скалярных полей
+ */
+export const SCALAR_FILTER_TYPES = `
+input StringFilter {
+  eq: String
+  ne: String
+  in: [String!]
+  notIn: [String!]
+  like: String
+  notLike: String
+  startsWith: String
+  endsWith: String
+  contains: String
+  isNull: Boolean
+}
+
+input IntFilter {
+  eq: Int
+  ne: Int
+  in: [Int!]
+  notIn: [Int!]
+  gt: Int
+  gte: Int
+  lt: Int
+  lte: Int
+  between: [Int!]
+  isNull: Boolean
+}
+
+input FloatFilter {
+  eq: Float
+  ne: Float
+  in: [Float!]
+  notIn: [Float!]
+  gt: Float
+  gte: Float
+  lt: Float
+  lte: Float
+  between: [Float!]
+  isNull: Boolean
+}
+
+input BooleanFilter {
+  eq: Boolean
+  ne: Boolean
+  isNull: Boolean
+}
+
+input BigIntFilter {
+  eq: BigInt
+  ne: BigInt
+  in: [BigInt!]
+  notIn: [BigInt!]
+  gt: BigInt
+  gte: BigInt
+  lt: BigInt
+  lte: BigInt
+  between: [BigInt!]
+  isNull: Boolean
+}
+
+input DecimalFilter {
+  eq: Decimal
+  ne: Decimal
+  in: [Decimal!]
+  notIn: [Decimal!]
+  gt: Decimal
+  gte: Decimal
+  lt: Decimal
+  lte: Decimal
+  between: [Decimal!]
+  isNull: Boolean
+}
+
+input DateTimeFilter {
+  eq: DateTime
+  ne: DateTime
+  gt: DateTime
+  gte: DateTime
+  lt: DateTime
+  lte: DateTime
+  between: [DateTime!]
+  isNull: Boolean
+}
+
+input DateFilter {
+  eq: Date
+  ne: Date
+  gt: Date
+  gte: Date
+  lt: Date
+  lte: Date
+  between: [Date!]
+  isNull: Boolean
+}
+
+input TimeFilter {
+  eq: Time
+  ne: Time
+  gt: Time
+  gte: Time
+  lt: Time
+  lte: Time
+  between: [Time!]
+  isNull: Boolean
+}
+
+input UUIDFilter {
+  eq: UUID
+  ne: UUID
+  in: [UUID!]
+  notIn: [UUID!]
+  isNull: Boolean
+}
+`;
+
+// Маппинг типов Sequelize в input типы фильтров
+const sequelizeToFilterTypes: Record<string, string> = {
+  STRING: 'StringFilter',
+  CHAR: 'StringFilter',
+  TEXT: 'StringFilter',
+  CITEXT: 'StringFilter',
+  UUID: 'UUIDFilter',
+  BIGINT: 'BigIntFilter',
+  INTEGER: 'IntFilter',
+  SMALLINT: 'IntFilter',
+  MEDIUMINT: 'IntFilter',
+  TINYINT: 'IntFilter',
+  FLOAT: 'FloatFilter',
+  DOUBLE: 'FloatFilter',
+  REAL: 'FloatFilter',
+  DECIMAL: 'DecimalFilter',
+  BOOLEAN: 'BooleanFilter',
+  DATE: 'DateTimeFilter',
+  DATEONLY: 'DateFilter',
+  TIME: 'TimeFilter'
+};
+
+const filterOperators: Record<string, symbol> = {
+  eq: Op.eq,
+  ne: Op.ne,
+  in: Op.in,
+  notIn: Op.notIn,
+  gt: Op.gt,
+  gte: Op.gte,
+  lt: Op.lt,
+  lte: Op.lte,
+  between: Op.between,
+  like: Op.like,
+  notLike: Op.notLike,
+  startsWith: Op.startsWith,
+  endsWith: Op.endsWith,
+  contains: Op.substring
+};
+
+/**
+ * Дерево ассоциаций, по которым фильтрует клиент: { author: { company: {} } }
+ */
+export type FilterIncludeTree = { [association: string]: FilterIncludeTree };
+
+/**
+ * Условия доступа к присоединенным ассоциациям по пути ("author", "author.company")
+ */
+export type FilterIncludeScopes = Record<string, any>;
+
+export interface FilterTranslation {
+  where: any;
+  include: FilterIncludeTree;
+  /**
+   * Auth conditions of joined models, added to the join condition
+   */
+  scopes?: FilterIncludeScopes;
+}
+
+/**
+ * Возвращает имя модели, на которую ссылается поле-ассоциация, или null для обычного поля
+ */
+export type FilterAssociationResolver = (modelName: string, fieldName: string) => string | null;
+
+/**
+ * Get filter input type name for Sequelize attribute, null when the attribute type is not filterable
+ */
+export function getScalarFilterType(attribute: any): string | null {
+  const sequelizeType = attribute?.type?.key || attribute?.type?.constructor?.name || 'STRING';
+  return sequelizeToFilterTypes[sequelizeType] || null;
+}
+
+/**
+ * Translate `<Model>Filter` input into Sequelize where conditions.
+ * Conditions on BelongsTo/HasOne associations use `$assoc.field$` keys,
+ * associations that must be joined are collected into the include tree.
+ */
+export function translateFilter(
+  filter: any,
+  modelName: string,
+  resolveAssociation: FilterAssociationResolver,
+  path: string[] = []
+): FilterTranslation {
+  const include: FilterIncludeTree = {};
+  const conditions: any[] = [];
+
+  if (!filter) {
+    return { where: {}, include };
+  }
+
+  for (const [key, value] of Object.entries(filter)) {
+    if (value === undefined || value === null) {
+      continue;
+    }
+
+    if (key === 'AND' || key === 'OR') {
+      const translated = (value as any[]).map(item => {
+        const result = translateFilter(item, modelName, resolveAssociation, path);
+        mergeIncludeTrees(include, result.include);
+        return result.where;
+      });
+      conditions.push({ [key === 'AND' ? Op.and : Op.or]: translated });
+      continue;
+    }
+
+    if (key === 'NOT') {
+      const result = translateFilter(value, modelName, resolveAssociation, path);
+      mergeIncludeTrees(include, result.include);
+      conditions.push({ [Op.not]: result.where });
+      continue;
+    }
+
+    const targetModel = resolveAssociation(modelName, key);
+    if (targetModel) {
+      const result = translateFilter(value, targetModel, resolveAssociation, [...path, key]);
+      include[key] = mergeIncludeTrees(include[key] || {}, result.include);
+      conditions.push(result.where);
+      continue;
+    }
+
+    const column = path.length > 0 ? `$${[...path, key].join('.')}$` : key;
+    conditions.push({ [column]: translateScalarFilter(key, value) });
+  }
+
+  if (conditions.length === 0) {
+    return { where: {}, include };
+  }
+
+  return { where: conditions.length === 1 ? conditions[0] : { [Op.and]: conditions }, include };
+}
+
+/**
+ * Collect [modelName, fieldName] pairs of scalar fields the filter compares,
+ * including fields of associations and nested AND/OR/NOT
+ */
+export function collectFilterFields(
+  filter: any,
+  modelName: string,
+  resolveAssociation: FilterAssociationResolver,
+  fields: Array<[string, string]> = []
+): Array<[string, string]> {
+  if (!filter) {
+    return fields;
+  }
+
+  for (const [key, value] of Object.entries(filter)) {
+    if (value === undefined || value === null) {
+      continue;
+    }
+
+    if (key === 'AND' || key === 'OR') {
+      for (const item of value as any[]) {
+        collectFilterFields(item, modelName, resolveAssociation, fields);
+      }
+      continue;
+    }
+
+    if (key === 'NOT') {
+      collectFilterFields(value, modelName, resolveAssociation, fields);
+      continue;
+    }
+
+    const targetModel = resolveAssociation(modelName, key);
+    if (targetModel) {
+      collectFilterFields(value, targetModel, resolveAssociation, fields);
+      continue;
+    }
+
+    fields.push([modelName, key]);
+  }
+
+  return fields;
+}
+
+/**
+ * Convert include tree into Sequelize include options.
+ * Associations are joined only for filtering, so no columns are selected from them.
+ * Scope of the association restricts the join, rows the user cannot read are never matched.
+ */
+export function buildFilterInclude(tree: FilterIncludeTree, scopes: FilterIncludeScopes = {}, path: string[] = []): any[] {
+  return Object.entries(tree).map(([association, nested]) => {
+    const associationPath = [...path, association];
+    const scope = scopes[associationPath.join('.')];
+
+    return {
+      association,
+      attributes: [],
+      required: false,
+      ...(scope ? { where: scope } : {}),
+      include: buildFilterInclude(nested, scopes, associationPath)
+    };
+  });
+}
+
+function translateScalarFilter(field: string, filter: Record<string, any>): any {
+  const condition: Record<symbol, any> = {};
+
+  for (const [operator, operand] of Object.entries(filter)) {
+    if (operand === undefined) {
+      continue;
+    }
+
+    if (operator === 'isNull') {
+      if (operand !== null) {
+        condition[operand ? Op.is : Op.not] = null;
+      }
+      continue;
+    }
+
+    const symbol = filterOperators[operator];
+    if (!symbol) {
+      throw new ValidationFailedError(`Unknown filter operator "${operator}" for field "${field}"`);
+    }
+
+    if (operator === 'between' && (!Array.isArray(operand) || operand.length !== 2)) {
+      throw new ValidationFailedError(`Filter operator "between" for field "${field}" requires exactly two values`);
+    }
+
+    condition[symbol] = operand;
+  }
+
+  return condition;
+}
+
+function mergeIncludeTrees(target: FilterIncludeTree, source: FilterIncludeTree): FilterIncludeTree {
+  for (const [association, nested] of Object.entries(source)) {
+    target[association] = mergeIncludeTrees(target[association] || {}, nested);
+  }
+  return target;
+}
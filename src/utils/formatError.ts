@@ -0,0 +1,117 @@
+import { GraphQLError, GraphQLFormattedError } from 'graphql';
+import { ValidationError, UniqueConstraintError, ForeignKeyConstraintError } from 'sequelize';
+import {
+  AppGraphQLError,
+  ConflictError,
+  FieldValidationError,
+  InternalError,
+  ValidationFailedError
+} from '../lib/GraphQLErrors';
+
+export interface ErrorFormatterOptions {
+  /**
+   * Replace messages of unexpected errors with "Internal server error"
+   * (default: NODE_ENV === 'production')
+   */
+  maskInternalErrors?: boolean;
+  /**
+   * Keep `extensions.stacktrace` in responses (default: when errors are not masked)
+   */
+  includeStacktrace?: boolean;
+  /**
+   * Custom formatter applied after the built-in one
+   */
+  formatError?: (formattedError: GraphQLFormattedError, error: unknown) => GraphQLFormattedError;
+}
+
+/**
+ * Resolve defaults of formatter options from environment
+ */
+export function resolveErrorFormatterOptions(options: ErrorFormatterOptions = {}): Required<Omit<ErrorFormatterOptions, 'formatError'>> & ErrorFormatterOptions {
+  const maskInternalErrors = options.maskInternalErrors ?? process.env.NODE_ENV === 'production';
+  return {
+    ...options,
+    maskInternalErrors,
+    includeStacktrace: options.includeStacktrace ?? !maskInternalErrors
+  };
+}
+
+/**
+ * Map Sequelize validation and constraint errors into typed errors with per-field details
+ */
+export function mapSequelizeError(error: unknown): AppGraphQLError | null {
+  if (error instanceof UniqueConstraintError) {
+    return new ConflictError('Unique constraint violated', getValidationFields(error), error);
+  }
+
+  if (error instanceof ValidationError) {
+    return new ValidationFailedError('Validation failed', getValidationFields(error), error);
+  }
+
+  if (error instanceof ForeignKeyConstraintError) {
+    const fields = Array.isArray(error.fields) ? error.fields : Object.keys(error.fields || {});
+    return new ConflictError(
+      'Foreign key constraint violated',
+      fields.map(field => ({ field: String(field), message: 'Related row does not exist or is still referenced', validator: 'foreign_key' })),
+      error
+    );
+  }
+
+  return null;
+}
+
+/**
+ * Build formatError for Apollo Server and subscription transport.
+ * Typed errors and GraphQL request errors keep their message, unexpected errors are masked
+ * in production (message replaced, stack trace removed) and logged on the server.
+ */
+export function createErrorFormatter(options: ErrorFormatterOptions = {}) {
+  const resolved = resolveErrorFormatterOptions(options);
+
+  return (formattedError: GraphQLFormattedError, error: unknown): GraphQLFormattedError => {
+    const originalError = error instanceof GraphQLError && error.originalError ? error.originalError : error;
+    let result: GraphQLFormattedError = formattedError;
+
+    const mapped = originalError instanceof AppGraphQLError ? originalError : mapSequelizeError(originalError);
+    if (mapped) {
+      result = { ...formattedError, message: mapped.message, extensions: { ...formattedError.extensions, ...mapped.extensions } };
+    } else if (isInternalError(formattedError, originalError)) {
+      if (resolved.maskInternalErrors) {
+        console.error('❌ GraphQL internal error:', originalError);
+        const internal = new InternalError();
+        result = { ...formattedError, message: internal.message, extensions: { ...internal.extensions } };
+      } else {
+        result = { ...formattedError, extensions: { ...formattedError.extensions, code: 'INTERNAL_SERVER_ERROR' } };
+      }
+    }
+
+    if (!resolved.includeStacktrace && result.extensions?.stacktrace) {
+      const { stacktrace, ...extensions } = result.extensions;
+      result = { ...result, extensions };
+    }
+
+    return resolved.formatError ? resolved.formatError(result, error) : result;
+  };
+}
+
+function getValidationFields(error: ValidationError): FieldValidationError[] {
+  return (error.errors || []).map(item => ({
+    field: item.path ?? null,
+    message: item.message,
+    validator: item.validatorKey ?? null
+  }));
+}
+
+/**
+ * Error without own code (or with the code assigned by Apollo for unknown errors)
+ * and not produced by GraphQL parsing/validation
+ */
+function isInternalError(formattedError: GraphQLFormattedError, originalError: unknown): boolean {
+  const code = formattedError.extensions?.code;
+  if (code && code !== 'INTERNAL_SERVER_ERROR') {
+    return false;
+  }
+
+  // Ошибки GraphQL без originalError (синтаксис, валидация, coercion переменных) безопасны
+  return !(originalError instanceof GraphQLError);
+}
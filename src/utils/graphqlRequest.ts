@@ -0,0 +1,99 @@
+import type { ApolloServer, GraphQLResponse } from '@apollo/server';
+import type { GraphQLFormattedError } from 'graphql';
+import { TransactionManager } from '../lib/TransactionManager';
+
+export interface GraphQLRequestBody {
+  query?: unknown;
+  variables?: Record<string, any> | null;
+  operationName?: string | null;
+}
+
+export interface GraphQLHttpResponse {
+  status: number;
+  body: {
+    data?: Record<string, unknown> | null;
+    errors?: ReadonlyArray<GraphQLFormattedError>;
+  };
+}
+
+export interface GraphQLRequestOptions {
+  server: ApolloServer<any>;
+  transactionManager: TransactionManager;
+  formatError: (formattedError: GraphQLFormattedError, error: unknown) => GraphQLFormattedError;
+}
+
+/**
+ * Execute body of a GraphQL HTTP request and build the response.
+ * The operation runs in a transaction according to the TransactionManager mode,
+ * errors outside of GraphQL execution are returned as `{ errors: [...] }` as well.
+ */
+export async function executeGraphQLRequest(
+  options: GraphQLRequestOptions,
+  body: GraphQLRequestBody | null | undefined,
+  context: Record<string, any>
+): Promise<GraphQLHttpResponse> {
+  const { server, transactionManager, formatError } = options;
+
+  try {
+    const { query, variables, operationName } = body || {};
+
+    if (!query || typeof query !== 'string') {
+      return {
+        status: 400,
+        body: { errors: [{ message: 'Query is required', extensions: { code: 'BAD_REQUEST' } }] }
+      };
+    }
+
+    const execute = () => server.executeOperation({
+      query,
+      variables: variables || {},
+      operationName: operationName || undefined,
+    }, {
+      contextValue: context
+    });
+
+    // Ошибка любого резолвера откатывает всю операцию
+    const operationType = transactionManager.getOperationType(query, operationName);
+    const response = transactionManager.shouldWrap(operationType)
+      ? await transactionManager.run(
+        context,
+        execute,
+        (result) => result.body.kind === 'single' && !!result.body.singleResult.errors?.length,
+        // Результаты отмененных мутаций не должны выглядеть сохраненными
+        (result) => operationType === 'mutation' ? discardData(result) : result
+      )
+      : await execute();
+
+    // Для incremental ответа отдаем первую часть
+    const result = response.body.kind === 'single' ? response.body.singleResult : response.body.initialResult;
+
+    // Возвращаем результат в формате, ожидаемом GraphQL Playground
+    const graphqlResponse: GraphQLHttpResponse['body'] = {};
+
+    if (result.data !== undefined) {
+      graphqlResponse.data = result.data;
+    }
+
+    if (result.errors && result.errors.length > 0) {
+      graphqlResponse.errors = result.errors;
+    }
+
+    return { status: response.http.status || 200, body: graphqlResponse };
+  } catch (error) {
+    console.error('GraphQL execution error:', error);
+    return {
+      status: 500,
+      body: { errors: [formatError({ message: (error as Error)?.message ?? String(error) }, error)] }
+    };
+  }
+}
+
+/**
+ * Drop data of the rolled back operation, errors are kept
+ */
+function discardData(response: GraphQLResponse): GraphQLResponse {
+  if (response.body.kind !== 'single') {
+    return response;
+  }
+  return { ...response, body: { ...response.body, singleResult: { ...response.body.singleResult, data: null } } };
+}
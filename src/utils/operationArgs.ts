@@ -0,0 +1,216 @@
+import { parse, parseType, TypeNode, Kind } from 'graphql';
+import type { GQLArgConfig, GQLTypeReference } from '../decorators/index';
+import type { GraphQLArgumentDefinition } from '../lib/types';
+
+const GRAPHQL_NAME_PATTERN = /^[_A-Za-z][_0-9A-Za-z]*$/;
+
+/**
+ * Where a named type may be used: scalars and enums are both input and output types
+ */
+export type GraphQLTypeUsage = 'input' | 'output' | 'both';
+
+/**
+ * GraphQL types of JS classes that can be used as type references
+ */
+const CLASS_TYPES = new Map<Function, string>([
+  [String, 'String'],
+  [Number, 'Float'],
+  [Boolean, 'Boolean'],
+  [Date, 'DateTime']
+]);
+
+/**
+ * GraphQL type name of the reference: strings are used as is, classes map to scalars,
+ * other classes (models) to their name
+ */
+export function resolveTypeReference(type: GQLTypeReference): string {
+  if (typeof type === 'string') {
+    return type;
+  }
+
+  const classType = CLASS_TYPES.get(type);
+  if (classType) {
+    return classType;
+  }
+
+  if (typeof type === 'function' && type.name) {
+    return type.name;
+  }
+
+  throw new Error(`Cannot resolve GraphQL type of ${String(type)}`);
+}
+
+/**
+ * Type in SDL notation, e.g. `[Post]!`. Nullable by default.
+ */
+export function printTypeReference(type: GQLTypeReference, nullable: boolean = true, list: boolean = false): string {
+  const name = resolveTypeReference(type);
+  const printed = list ? `[${name}]` : name;
+  return nullable ? printed : `${printed}!`;
+}
+
+/**
+ * Default value in GraphQL literal notation. Strings are quoted, so enum defaults are not supported.
+ */
+export function printDefaultValue(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+
+  if (Array.isArray(value)) {
+    return `[${value.map(printDefaultValue).join(', ')}]`;
+  }
+
+  switch (typeof value) {
+    case 'string':
+      return JSON.stringify(value);
+    case 'number':
+      if (!Number.isFinite(value)) {
+        throw new Error(`Default value ${value} is not a valid GraphQL value`);
+      }
+      return String(value);
+    case 'boolean':
+      return String(value);
+    case 'object':
+      return `{${Object.entries(value as Record<string, unknown>)
+        .filter(([, item]) => item !== undefined)
+        .map(([key, item]) => `${key}: ${printDefaultValue(item)}`)
+        .join(', ')}}`;
+    default:
+      throw new Error(`Default value ${String(value)} is not a valid GraphQL value`);
+  }
+}
+
+function normalizeArgument(arg: GQLTypeReference | GQLArgConfig): GQLArgConfig {
+  return typeof arg === 'object' && arg !== null ? arg : { type: arg };
+}
+
+/**
+ * Argument definition, e.g. `"""Page size""" limit: Int = 10`
+ */
+export function printArgument(name: string, arg: GQLTypeReference | GQLArgConfig): string {
+  const config = normalizeArgument(arg);
+
+  let printed = config.description ? `"""${config.description}""" ` : '';
+  printed += `${name}: ${printTypeReference(config.type, config.nullable !== false, config.list)}`;
+  if (config.defaultValue !== undefined) {
+    printed += ` = ${printDefaultValue(config.defaultValue)}`;
+  }
+
+  return printed;
+}
+
+/**
+ * Argument list of the field, empty string when there are no arguments
+ */
+export function printArguments(args: Record<string, GQLTypeReference | GQLArgConfig> = {}): string {
+  const printed = Object.entries(args).map(([name, arg]) => printArgument(name, arg));
+  return printed.length > 0 ? `(${printed.join(', ')})` : '';
+}
+
+/**
+ * Argument list of custom operation handler, empty string when there are no arguments
+ */
+export function printArgumentDefinitions(args: GraphQLArgumentDefinition[] = []): string {
+  return printArguments(Object.fromEntries(args.map(arg => [arg.name, {
+    type: arg.type,
+    defaultValue: arg.defaultValue,
+    description: arg.description
+  }])));
+}
+
+/**
+ * `@deprecated` directive of the field, empty string when the field is not deprecated
+ */
+export function printDeprecation(reason?: string): string {
+  return reason ? ` @deprecated(reason: ${JSON.stringify(reason)})` : '';
+}
+
+/**
+ * Named types defined in the type definitions and how they may be used.
+ * Definitions that cannot be parsed are skipped, they are reported as invalid SDL.
+ */
+export function collectTypeUsage(typeDefs: string[]): Map<string, GraphQLTypeUsage> {
+  const usage = new Map<string, GraphQLTypeUsage>(['Int', 'Float', 'String', 'Boolean', 'ID'].map(name => [name, 'both']));
+
+  for (const source of typeDefs) {
+    let definitions;
+    try {
+      definitions = parse(source).definitions;
+    } catch {
+      continue;
+    }
+
+    for (const definition of definitions) {
+      switch (definition.kind) {
+        case Kind.SCALAR_TYPE_DEFINITION:
+        case Kind.ENUM_TYPE_DEFINITION:
+          usage.set(definition.name.value, 'both');
+          break;
+        case Kind.INPUT_OBJECT_TYPE_DEFINITION:
+          usage.set(definition.name.value, 'input');
+          break;
+        case Kind.OBJECT_TYPE_DEFINITION:
+        case Kind.INTERFACE_TYPE_DEFINITION:
+        case Kind.UNION_TYPE_DEFINITION:
+          usage.set(definition.name.value, 'output');
+          break;
+      }
+    }
+  }
+
+  return usage;
+}
+
+function getNamedType(type: TypeNode): string {
+  return type.kind === Kind.NAMED_TYPE ? type.name.value : getNamedType(type.type);
+}
+
+/**
+ * Check arguments of custom operation: valid unique names, parsable input types known to the schema
+ * and printable default values. `getTypeUsage` returns undefined for unknown types,
+ * when it is not passed only the syntax is checked.
+ */
+export function validateArgumentDefinitions(
+  owner: string,
+  args: GraphQLArgumentDefinition[],
+  getTypeUsage?: (name: string) => GraphQLTypeUsage | undefined
+): void {
+  const names = new Set<string>();
+
+  for (const arg of args) {
+    if (!arg || typeof arg.name !== 'string' || !GRAPHQL_NAME_PATTERN.test(arg.name) || arg.name.startsWith('__')) {
+      throw new Error(`${owner}: invalid argument name "${arg?.name}"`);
+    }
+    if (names.has(arg.name)) {
+      throw new Error(`${owner}: argument "${arg.name}" is defined twice`);
+    }
+    names.add(arg.name);
+
+    let typeNode: TypeNode;
+    try {
+      typeNode = parseType(String(arg.type));
+    } catch {
+      throw new Error(`${owner}: invalid type "${arg.type}" of argument "${arg.name}"`);
+    }
+
+    const typeName = getNamedType(typeNode);
+    if (getTypeUsage) {
+      const usage = getTypeUsage(typeName);
+      if (!usage) {
+        throw new Error(`${owner}: unknown type ${typeName} of argument "${arg.name}"`);
+      }
+      if (usage === 'output') {
+        throw new Error(`${owner}: type ${typeName} of argument "${arg.name}" is not an input type`);
+      }
+    }
+
+    if (arg.defaultValue !== undefined) {
+      try {
+        printDefaultValue(arg.defaultValue);
+      } catch (error: any) {
+        throw new Error(`${owner}: argument "${arg.name}": ${error.message}`);
+      }
+    }
+  }
+}
@@ -0,0 +1,365 @@
+import {
+  DocumentNode,
+  FragmentDefinitionNode,
+  GraphQLError,
+  GraphQLSchema,
+  GraphQLCompositeType,
+  OperationDefinitionNode,
+  SelectionSetNode,
+  Kind,
+  visit,
+  getNamedType,
+  getNullableType,
+  isListType,
+  isObjectType,
+  isInterfaceType,
+  isUnionType,
+  isCompositeType,
+  getArgumentValues,
+  getDirectiveValues,
+  GraphQLSkipDirective,
+  GraphQLIncludeDirective
+} from 'graphql';
+import type { ApolloServerPlugin } from '@apollo/server';
+
+export interface QueryLimitsOptions {
+  /** Maximum nesting depth of fields */
+  maxDepth?: number;
+  /** Maximum total complexity of an operation */
+  maxComplexity?: number;
+  /** Maximum number of aliased fields */
+  maxAliases?: number;
+  /** Maximum number of root fields in an operation */
+  maxRootFields?: number;
+  /** Multiplier for list fields without `limit`/`first`/`last` argument (default 10) */
+  defaultListSize?: number;
+  /** Maximum number of fields the analysis visits, guards the analysis itself (default 10000) */
+  maxNodes?: number;
+}
+
+export interface QueryCost {
+  depth: number;
+  complexity: number;
+  aliases: number;
+  rootFields: number;
+  /** Fields visited by the analysis, fragments spread many times are visited once per type */
+  nodes: number;
+}
+
+const DEFAULT_MAX_NODES = 10000;
+
+/**
+ * Cost override for field of type, undefined means default cost
+ */
+export type FieldCostResolver = (typeName: string, fieldName: string) => number | undefined;
+
+interface AnalysisContext {
+  schema: GraphQLSchema;
+  fragments: Record<string, FragmentDefinitionNode>;
+  variables: Record<string, any>;
+  defaultListSize: number;
+  getFieldCost: FieldCostResolver;
+  options: QueryLimitsOptions;
+  // Стоимость выборки по типу родителя: поля фрагмента - одни и те же узлы AST при каждом spread
+  costs: WeakMap<SelectionSetNode, Map<string, SelectionCost>>;
+  nodes: number;
+  // Превышенный лимит и наибольшие значения до остановки анализа
+  exceeded: { depth: number, complexity: number } | null;
+}
+
+interface SelectionCost {
+  /** Levels of fields in the selection set including its own */
+  height: number;
+  complexity: number;
+}
+
+/**
+ * Calculate depth, complexity, aliases and root fields of the operation.
+ *
+ * Object fields cost 1, scalar fields cost 0 unless overridden through GQLField({ cost }).
+ * Cost of a field including its subtree is multiplied by `limit`/`first`/`last` argument
+ * or by `defaultListSize` for list fields without them.
+ * The analysis stops as soon as maxDepth, maxComplexity or maxNodes is exceeded,
+ * the returned cost then exceeds that limit.
+ */
+export function analyzeOperation(
+  schema: GraphQLSchema,
+  document: DocumentNode,
+  operationName: string | null | undefined,
+  variables: Record<string, any> = {},
+  options: QueryLimitsOptions = {},
+  getFieldCost: FieldCostResolver = () => undefined
+): QueryCost | null {
+  const operations = document.definitions.filter(
+    (definition): definition is OperationDefinitionNode => definition.kind === Kind.OPERATION_DEFINITION
+  );
+  const operation = operationName
+    ? operations.find(item => item.name?.value === operationName)
+    : operations[0];
+
+  if (!operation) {
+    return null;
+  }
+
+  const rootType = schema.getRootType(operation.operation);
+  if (!rootType) {
+    return null;
+  }
+
+  const fragments: Record<string, FragmentDefinitionNode> = {};
+  for (const definition of document.definitions) {
+    if (definition.kind === Kind.FRAGMENT_DEFINITION) {
+      fragments[definition.name.value] = definition;
+    }
+  }
+
+  const context: AnalysisContext = {
+    schema,
+    fragments,
+    variables,
+    defaultListSize: options.defaultListSize ?? 10,
+    getFieldCost,
+    options,
+    costs: new WeakMap(),
+    nodes: 0,
+    exceeded: null
+  };
+
+  const rootFields = collectFields(context, rootType, operation.selectionSet);
+  const result = analyzeSelectionSet(context, rootType, operation.selectionSet, 1);
+
+  return {
+    depth: Math.max(result.height, context.exceeded?.depth ?? 0),
+    complexity: Math.max(result.complexity, context.exceeded?.complexity ?? 0),
+    aliases: countAliases(document),
+    rootFields: rootFields.length,
+    nodes: context.nodes
+  };
+}
+
+/**
+ * Compare computed cost with configured limits, returns error for the first exceeded limit
+ */
+export function checkQueryLimits(cost: QueryCost, options: QueryLimitsOptions): GraphQLError | null {
+  const checks: Array<[keyof QueryCost, number | undefined, string]> = [
+    ['depth', options.maxDepth, 'Query depth'],
+    ['complexity', options.maxComplexity, 'Query complexity'],
+    ['aliases', options.maxAliases, 'Number of aliases'],
+    ['rootFields', options.maxRootFields, 'Number of root fields'],
+    ['nodes', options.maxNodes ?? DEFAULT_MAX_NODES, 'Number of analyzed fields']
+  ];
+
+  for (const [metric, limit, label] of checks) {
+    if (limit !== undefined && cost[metric] > limit) {
+      return new GraphQLError(`${label} ${cost[metric]} exceeds maximum allowed ${limit}`, {
+        extensions: {
+          code: 'QUERY_LIMIT_EXCEEDED',
+          limit: metric,
+          maximum: limit,
+          cost,
+          http: { status: 400 }
+        }
+      });
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Apollo plugin that rejects operations exceeding limits before any resolver runs
+ */
+export function createQueryLimitsPlugin(options: QueryLimitsOptions, getFieldCost?: FieldCostResolver): ApolloServerPlugin<any> {
+  return {
+    async requestDidStart() {
+      return {
+        async didResolveOperation({ schema, document, operationName, request }) {
+          const cost = analyzeOperation(schema, document, operationName, request.variables || {}, options, getFieldCost);
+          if (!cost) {
+            return;
+          }
+
+          const error = checkQueryLimits(cost, options);
+          if (error) {
+            throw error;
+          }
+        }
+      };
+    }
+  };
+}
+
+function analyzeSelectionSet(
+  context: AnalysisContext,
+  parentType: GraphQLCompositeType,
+  selectionSet: SelectionSetNode,
+  depth: number,
+  paged: boolean = false
+): SelectionCost {
+  const key = `${parentType.name}:${paged}`;
+  let costs = context.costs.get(selectionSet);
+  if (!costs) {
+    costs = new Map();
+    context.costs.set(selectionSet, costs);
+  }
+
+  let cost = costs.get(key);
+  if (!cost) {
+    cost = measureSelectionSet(context, parentType, selectionSet, depth, paged);
+    costs.set(key, cost);
+  }
+
+  return cost;
+}
+
+function measureSelectionSet(
+  context: AnalysisContext,
+  parentType: GraphQLCompositeType,
+  selectionSet: SelectionSetNode,
+  depth: number,
+  paged: boolean
+): SelectionCost {
+  const { maxDepth } = context.options;
+  if (context.exceeded || (maxDepth !== undefined && depth > maxDepth)) {
+    markExceeded(context, depth, 0);
+    return { height: 1, complexity: 0 };
+  }
+
+  // Для union/interface берем самый дорогой из возможных типов
+  if (isUnionType(parentType) || isInterfaceType(parentType)) {
+    let worst: SelectionCost = { height: 1, complexity: 0 };
+    for (const possibleType of context.schema.getPossibleTypes(parentType)) {
+      const result = analyzeSelectionSet(context, possibleType, selectionSet, depth, paged);
+      worst = { height: Math.max(worst.height, result.height), complexity: Math.max(worst.complexity, result.complexity) };
+    }
+    return worst;
+  }
+
+  let height = 1;
+  let complexity = 0;
+
+  for (const fieldNode of collectFields(context, parentType, selectionSet)) {
+    if (context.exceeded) {
+      break;
+    }
+
+    const fieldName = fieldNode.name.value;
+    if (fieldName.startsWith('__') || !isObjectType(parentType)) {
+      continue;
+    }
+
+    const fieldDef = parentType.getFields()[fieldName];
+    if (!fieldDef) {
+      continue;
+    }
+
+    context.nodes++;
+    const namedType = getNamedType(fieldDef.type);
+    const isList = isListType(getNullableType(fieldDef.type));
+    const pageSize = getPageSize(context, fieldDef, fieldNode);
+    let childComplexity = 0;
+
+    if (fieldNode.selectionSet && isCompositeType(namedType)) {
+      // Connection (first/last на не-списке): размер страницы уже учтен, edges не умножаем повторно
+      const child = analyzeSelectionSet(context, namedType, fieldNode.selectionSet, depth + 1, pageSize !== null && !isList);
+      height = Math.max(height, child.height + 1);
+      childComplexity = child.complexity;
+    }
+
+    const override = context.getFieldCost(parentType.name, fieldName);
+    const baseCost = override ?? (isCompositeType(namedType) ? 1 : 0);
+    const multiplier = pageSize ?? (isList && !paged ? context.defaultListSize : 1);
+
+    complexity += multiplier * (baseCost + childComplexity);
+
+    const { maxComplexity } = context.options;
+    if ((maxComplexity !== undefined && complexity > maxComplexity) || context.nodes > (context.options.maxNodes ?? DEFAULT_MAX_NODES)) {
+      markExceeded(context, depth + height - 1, complexity);
+    }
+  }
+
+  return { height, complexity };
+}
+
+function markExceeded(context: AnalysisContext, depth: number, complexity: number): void {
+  const exceeded = context.exceeded ?? { depth: 0, complexity: 0 };
+  context.exceeded = { depth: Math.max(exceeded.depth, depth), complexity: Math.max(exceeded.complexity, complexity) };
+}
+
+function getPageSize(context: AnalysisContext, fieldDef: any, fieldNode: any): number | null {
+  let args: Record<string, any> = {};
+  try {
+    args = getArgumentValues(fieldDef, fieldNode, context.variables);
+  } catch {
+    // Невалидные аргументы отклонит валидация, здесь считаем по умолчанию
+  }
+
+  for (const name of ['first', 'last', 'limit']) {
+    if (typeof args[name] === 'number') {
+      return Math.max(args[name], 0);
+    }
+  }
+
+  return null;
+}
+
+function collectFields(
+  context: AnalysisContext,
+  parentType: GraphQLCompositeType,
+  selectionSet: SelectionSetNode,
+  fields: any[] = [],
+  visitedFragments: Set<string> = new Set()
+): any[] {
+  for (const selection of selectionSet.selections) {
+    if (!shouldInclude(context, selection)) {
+      continue;
+    }
+
+    switch (selection.kind) {
+      case Kind.FIELD:
+        fields.push(selection);
+        break;
+
+      case Kind.INLINE_FRAGMENT:
+        collectFields(context, parentType, selection.selectionSet, fields, visitedFragments);
+        break;
+
+      case Kind.FRAGMENT_SPREAD: {
+        const fragmentName = selection.name.value;
+        const fragment = context.fragments[fragmentName];
+        // Циклические фрагменты отклонит валидация, здесь просто не уходим в рекурсию
+        if (fragment && !visitedFragments.has(fragmentName)) {
+          visitedFragments.add(fragmentName);
+          collectFields(context, parentType, fragment.selectionSet, fields, visitedFragments);
+        }
+        break;
+      }
+    }
+  }
+
+  return fields;
+}
+
+function countAliases(document: DocumentNode): number {
+  let aliases = 0;
+
+  visit(document, {
+    Field(node) {
+      if (node.alias) {
+        aliases++;
+      }
+    }
+  });
+
+  return aliases;
+}
+
+function shouldInclude(context: AnalysisContext, node: any): boolean {
+  const skip = getDirectiveValues(GraphQLSkipDirective, node, context.variables);
+  if (skip?.if === true) {
+    return false;
+  }
+
+  const include = getDirectiveValues(GraphQLIncludeDirective, node, context.variables);
+  return include?.if !== false;
+}
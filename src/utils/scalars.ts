@@ -0,0 +1,279 @@
+import { GraphQLError, GraphQLScalarType, Kind, ValueNode, print } from 'graphql';
+
+const DATE_ONLY_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)(:([0-5]\d)(\.\d{1,6})?)?$/;
+const BIG_INT_PATTERN = /^-?\d+$/;
+const DECIMAL_PATTERN = /^-?\d+(\.\d+)?([eE][+-]?\d+)?$/;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Маппинг типов Sequelize в GraphQL типы, неизвестные типы отдаются как String
+ */
+export const SEQUELIZE_SCALAR_TYPES: Record<string, string> = {
+  STRING: 'String',
+  CHAR: 'String',
+  TEXT: 'String',
+  CITEXT: 'String',
+  TINYINT: 'Int',
+  SMALLINT: 'Int',
+  MEDIUMINT: 'Int',
+  INTEGER: 'Int',
+  BIGINT: 'BigInt',
+  FLOAT: 'Float',
+  REAL: 'Float',
+  DOUBLE: 'Float',
+  DECIMAL: 'Decimal',
+  BOOLEAN: 'Boolean',
+  DATE: 'DateTime',
+  DATEONLY: 'Date',
+  TIME: 'Time',
+  JSON: 'JSON',
+  JSONB: 'JSON',
+  UUID: 'UUID',
+  UUIDV1: 'UUID',
+  UUIDV4: 'UUID'
+};
+
+/**
+ * Sequelize data type key of the attribute (`STRING`, `DATE`, ...)
+ */
+export function getSequelizeTypeKey(attribute: any): string {
+  return attribute?.type?.key || attribute?.type?.constructor?.name || 'STRING';
+}
+
+function invalid(scalar: string, value: unknown): GraphQLError {
+  const printed = typeof value === 'string' ? `"${value}"` : String(value);
+  return new GraphQLError(`${scalar} cannot represent value: ${printed}`);
+}
+
+function literalToString(scalar: string, ast: ValueNode, kinds: Kind[]): string {
+  if (!kinds.includes(ast.kind) || !('value' in ast)) {
+    throw new GraphQLError(`${scalar} cannot represent literal: ${print(ast)}`, { nodes: ast });
+  }
+  return String(ast.value);
+}
+
+function toDate(scalar: string, value: unknown): Date {
+  const date = value instanceof Date ? value : (typeof value === 'string' || typeof value === 'number') ? new Date(value) : null;
+  if (!date || isNaN(date.getTime())) {
+    throw invalid(scalar, value);
+  }
+  return date;
+}
+
+function isValidDateOnly(value: string): boolean {
+  const match = DATE_ONLY_PATTERN.exec(value);
+  if (!match) {
+    return false;
+  }
+
+  // Отсекаем несуществующие даты вроде 2024-02-30
+  const date = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+  return date.getUTCFullYear() === Number(match[1]) && date.getUTCMonth() === Number(match[2]) - 1 && date.getUTCDate() === Number(match[3]);
+}
+
+function parseDateOnly(value: unknown): string {
+  if (typeof value !== 'string' || !isValidDateOnly(value)) {
+    throw invalid('Date', value);
+  }
+  return value;
+}
+
+function parseTime(value: unknown): string {
+  if (typeof value !== 'string' || !TIME_PATTERN.test(value)) {
+    throw invalid('Time', value);
+  }
+  return value;
+}
+
+function parseBigInt(value: unknown): string {
+  if (typeof value === 'bigint') {
+    return value.toString();
+  }
+  if (typeof value === 'number' && Number.isSafeInteger(value)) {
+    return String(value);
+  }
+  if (typeof value === 'string' && BIG_INT_PATTERN.test(value)) {
+    return value;
+  }
+  throw invalid('BigInt', value);
+}
+
+function serializeBigInt(value: unknown): string {
+  // Драйвер (например, sqlite) мог уже вернуть число за пределами safe integer, отдаем как есть
+  if (typeof value === 'number' && Number.isInteger(value)) {
+    return BigInt(value).toString();
+  }
+  return parseBigInt(value);
+}
+
+function parseDecimal(value: unknown): string {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return String(value);
+  }
+  if (typeof value === 'string' && DECIMAL_PATTERN.test(value)) {
+    return value;
+  }
+  throw invalid('Decimal', value);
+}
+
+function parseUUID(value: unknown): string {
+  if (typeof value !== 'string' || !UUID_PATTERN.test(value)) {
+    throw invalid('UUID', value);
+  }
+  return value;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function parseJSONLiteral(ast: ValueNode, variables?: Record<string, unknown> | null): unknown {
+  switch (ast.kind) {
+    case Kind.STRING:
+    case Kind.BOOLEAN:
+      return ast.value;
+    case Kind.INT:
+    case Kind.FLOAT:
+      return Number(ast.value);
+    case Kind.OBJECT: {
+      const value: Record<string, unknown> = {};
+      for (const field of ast.fields) {
+        value[field.name.value] = parseJSONLiteral(field.value, variables);
+      }
+      return value;
+    }
+    case Kind.LIST:
+      return ast.values.map(item => parseJSONLiteral(item, variables));
+    case Kind.NULL:
+      return null;
+    case Kind.VARIABLE:
+      return variables ? variables[ast.name.value] : undefined;
+    default:
+      throw new GraphQLError(`JSON cannot represent literal: ${print(ast)}`, { nodes: ast });
+  }
+}
+
+/**
+ * Date and time (Sequelize DATE) as ISO 8601 string, e.g. `2024-05-01T10:00:00.000Z`
+ */
+export const DateTimeScalar = new GraphQLScalarType({
+  name: 'DateTime',
+  description: 'Date and time as ISO 8601 string, e.g. 2024-05-01T10:00:00.000Z',
+  serialize: value => toDate('DateTime', value).toISOString(),
+  parseValue: value => {
+    if (typeof value !== 'string') {
+      throw invalid('DateTime', value);
+    }
+    return toDate('DateTime', value);
+  },
+  parseLiteral: ast => toDate('DateTime', literalToString('DateTime', ast, [Kind.STRING]))
+});
+
+/**
+ * Calendar date without time (Sequelize DATEONLY), `YYYY-MM-DD`
+ */
+export const DateScalar = new GraphQLScalarType({
+  name: 'Date',
+  description: 'Calendar date without time, YYYY-MM-DD',
+  serialize: value => {
+    if (typeof value === 'string' && isValidDateOnly(value)) {
+      return value;
+    }
+    return toDate('Date', value).toISOString().slice(0, 10);
+  },
+  parseValue: parseDateOnly,
+  parseLiteral: ast => parseDateOnly(literalToString('Date', ast, [Kind.STRING]))
+});
+
+/**
+ * Time of day (Sequelize TIME), `HH:mm[:ss[.SSSSSS]]`
+ */
+export const TimeScalar = new GraphQLScalarType({
+  name: 'Time',
+  description: 'Time of day, HH:mm[:ss[.SSSSSS]]',
+  serialize: parseTime,
+  parseValue: parseTime,
+  parseLiteral: ast => parseTime(literalToString('Time', ast, [Kind.STRING]))
+});
+
+/**
+ * 64-bit integer (Sequelize BIGINT) transferred as string to keep precision
+ */
+export const BigIntScalar = new GraphQLScalarType({
+  name: 'BigInt',
+  description: 'Integer of arbitrary size, serialized as string',
+  serialize: serializeBigInt,
+  parseValue: parseBigInt,
+  parseLiteral: ast => parseBigInt(literalToString('BigInt', ast, [Kind.INT, Kind.STRING]))
+});
+
+/**
+ * Fixed point number (Sequelize DECIMAL) transferred as string to keep precision
+ */
+export const DecimalScalar = new GraphQLScalarType({
+  name: 'Decimal',
+  description: 'Fixed point number, serialized as string',
+  serialize: parseDecimal,
+  parseValue: parseDecimal,
+  parseLiteral: ast => parseDecimal(literalToString('Decimal', ast, [Kind.INT, Kind.FLOAT, Kind.STRING]))
+});
+
+/**
+ * Any JSON value (Sequelize JSON/JSONB)
+ */
+export const JSONScalar = new GraphQLScalarType({
+  name: 'JSON',
+  description: 'Any JSON value',
+  serialize: value => value,
+  parseValue: value => value,
+  parseLiteral: (ast, variables) => parseJSONLiteral(ast, variables)
+});
+
+/**
+ * JSON object (not array or primitive)
+ */
+export const JSONObjectScalar = new GraphQLScalarType({
+  name: 'JSONObject',
+  description: 'JSON object',
+  serialize: value => {
+    if (!isPlainObject(value)) {
+      throw invalid('JSONObject', value);
+    }
+    return value;
+  },
+  parseValue: value => {
+    if (!isPlainObject(value)) {
+      throw invalid('JSONObject', value);
+    }
+    return value;
+  },
+  parseLiteral: (ast, variables) => {
+    if (ast.kind !== Kind.OBJECT) {
+      throw new GraphQLError(`JSONObject cannot represent literal: ${print(ast)}`, { nodes: ast });
+    }
+    return parseJSONLiteral(ast, variables);
+  }
+});
+
+/**
+ * RFC 4122 UUID string
+ */
+export const UUIDScalar = new GraphQLScalarType({
+  name: 'UUID',
+  description: 'RFC 4122 UUID',
+  serialize: parseUUID,
+  parseValue: parseUUID,
+  parseLiteral: ast => parseUUID(literalToString('UUID', ast, [Kind.STRING]))
+});
+
+export const BUILT_IN_SCALARS: GraphQLScalarType[] = [
+  DateTimeScalar,
+  DateScalar,
+  TimeScalar,
+  BigIntScalar,
+  DecimalScalar,
+  JSONScalar,
+  JSONObjectScalar,
+  UUIDScalar
+];
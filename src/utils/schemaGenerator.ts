@@ -6,6 +6,9 @@ import {
   getGraphQLModelMetadata 
 } from '../decorators';
 import { AbstractGraphQLModelConfig } from '../abstract/AbstractGraphQLModelConfig';
+import { NotFoundError } from '../lib/GraphQLErrors';
+import { ScalarRegistry } from '../lib/ScalarRegistry';
+import type { GraphQLScalarType } from 'graphql';
 
 // Простая функция merge вместо lodash
 function mergeObjects(target: any, source: any): any {
@@ -20,8 +23,8 @@ function mergeObjects(target: any, source: any): any {
   return target;
 }
 
-// Маппинг типов Sequelize в GraphQL
-const sequelizeToGraphQLTypes: Record<string, string> = {
+// Маппинг типов Sequelize в GraphQL до появления реестра скаляров (legacyTypeMapping)
+const legacySequelizeToGraphQLTypes: Record<string, string> = {
   STRING: 'String',
   TEXT: 'String',
   INTEGER: 'Int',
@@ -39,6 +42,14 @@ const sequelizeToGraphQLTypes: Record<string, string> = {
   ENUM: 'String'
 };
 
+export interface GraphQLSchemaGeneratorOptions {
+  /**
+   * Keep the type mapping used before the scalar registry: DATE, DATEONLY, TIME and UUID as String,
+   * BIGINT as Int and DECIMAL as Float. By default these map to DateTime, Date, Time, UUID, BigInt and Decimal.
+   */
+  legacyTypeMapping?: boolean;
+}
+
 interface GraphQLSchema {
   typeDefs: string;
   resolvers: any;
@@ -57,6 +68,12 @@ export class GraphQLSchemaGenerator {
   private customResolvers: any = {};
   private customTypes: string[] = [];
   private blackList: string[] = [];
+  private scalars = new ScalarRegistry();
+  private options: GraphQLSchemaGeneratorOptions;
+
+  constructor(options: GraphQLSchemaGeneratorOptions = {}) {
+    this.options = options;
+  }
 
   // Регистрация модели
   public addModel(model: ModelCtor<Model>, config?: AbstractGraphQLModelConfig): void {
@@ -73,6 +90,11 @@ export class GraphQLSchemaGenerator {
     mergeObjects(this.customResolvers, resolvers);
   }
 
+  // Добавление пользовательских скаляров
+  public addScalar(scalar: GraphQLScalarType, sequelizeTypes?: string[]): void {
+    this.scalars.register(scalar, { sequelizeTypes });
+  }
+
   // Добавление пользовательских типов
   public addCustomType(typeDef: string): void {
     this.customTypes.push(typeDef);
@@ -107,6 +129,9 @@ export class GraphQLSchemaGenerator {
     // Добавляем пользовательские резолверы
     mergeObjects(resolvers, this.customResolvers);
 
+    // Скаляры нельзя сливать через mergeObjects, это экземпляры GraphQLScalarType
+    Object.assign(resolvers, this.scalars.getResolvers());
+
     return {
       typeDefs,
       resolvers
@@ -115,9 +140,7 @@ export class GraphQLSchemaGenerator {
 
   private generateBaseTypeDefs(): string {
     return `
-      scalar JSON
-      scalar DateTime
-      
+      ${this.scalars.getTypeDefs()}
       type Query {
         _health: String
       }
@@ -190,9 +213,11 @@ export class GraphQLSchemaGenerator {
     // Определяем базовый тип из Sequelize
     let baseType = 'String'; // default
     
-    if (attribute.type) {
+    if (attribute.type && this.options.legacyTypeMapping) {
       const sequelizeType = attribute.type.constructor.name || attribute.type.key;
-      baseType = sequelizeToGraphQLTypes[sequelizeType] || 'String';
+      baseType = legacySequelizeToGraphQLTypes[sequelizeType] || 'String';
+    } else if (attribute.type) {
+      baseType = this.scalars.getTypeName(attribute);
     }
 
     // Применяем модификаторы
@@ -324,14 +349,14 @@ export class GraphQLSchemaGenerator {
 
       resolvers.Mutation[`update${typeName}`] = async (parent: any, args: any, context: any) => {
         const instance = await model.findByPk(args.id);
-        if (!instance) throw new Error(`${typeName} not found`);
+        if (!instance) throw new NotFoundError(`${typeName} not found`, { model: typeName, ids: [args.id] });
         
         return await instance.update(args.input);
       };
 
       resolvers.Mutation[`delete${typeName}`] = async (parent: any, args: any, context: any) => {
         const instance = await model.findByPk(args.id);
-        if (!instance) throw new Error(`${typeName} not found`);
+        if (!instance) throw new NotFoundError(`${typeName} not found`, { model: typeName, ids: [args.id] });
         
         await instance.destroy();
         return true;
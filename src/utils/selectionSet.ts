@@ -0,0 +1,90 @@
+import {
+  GraphQLResolveInfo,
+  SelectionSetNode,
+  Kind,
+  getDirectiveValues,
+  GraphQLSkipDirective,
+  GraphQLIncludeDirective
+} from 'graphql';
+
+/**
+ * Дерево запрошенных клиентом полей: { title: {}, author: { name: {} } }.
+ * Алиасы сливаются по имени поля, фрагменты раскрываются.
+ */
+export type SelectionTree = { [field: string]: SelectionTree };
+
+/**
+ * Build selection tree of the field being resolved
+ */
+export function getSelectionTree(info: GraphQLResolveInfo): SelectionTree {
+  const tree: SelectionTree = {};
+
+  for (const fieldNode of info.fieldNodes) {
+    collectSelections(info, fieldNode.selectionSet, tree);
+  }
+
+  return tree;
+}
+
+/**
+ * Get nested part of the tree, e.g. ['edges', 'node'] for connection types
+ */
+export function getSelectionSubtree(tree: SelectionTree, path: string[]): SelectionTree {
+  let current: SelectionTree = tree;
+
+  for (const field of path) {
+    current = current[field];
+    if (!current) {
+      return {};
+    }
+  }
+
+  return current;
+}
+
+function collectSelections(info: GraphQLResolveInfo, selectionSet: SelectionSetNode | undefined, tree: SelectionTree): void {
+  if (!selectionSet) {
+    return;
+  }
+
+  for (const selection of selectionSet.selections) {
+    if (!shouldInclude(info, selection)) {
+      continue;
+    }
+
+    switch (selection.kind) {
+      case Kind.FIELD: {
+        const name = selection.name.value;
+        if (name.startsWith('__')) {
+          break;
+        }
+
+        tree[name] = tree[name] || {};
+        collectSelections(info, selection.selectionSet, tree[name]);
+        break;
+      }
+
+      case Kind.INLINE_FRAGMENT:
+        collectSelections(info, selection.selectionSet, tree);
+        break;
+
+      case Kind.FRAGMENT_SPREAD: {
+        const fragment = info.fragments[selection.name.value];
+        if (fragment) {
+          collectSelections(info, fragment.selectionSet, tree);
+        }
+        break;
+      }
+    }
+  }
+}
+
+function shouldInclude(info: GraphQLResolveInfo, node: any): boolean {
+  const skip = getDirectiveValues(GraphQLSkipDirective, node, info.variableValues);
+  if (skip?.if === true) {
+    return false;
+  }
+
+  const include = getDirectiveValues(GraphQLIncludeDirective, node, info.variableValues);
+  return include?.if !== false;
+}
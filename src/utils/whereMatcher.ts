@@ -0,0 +1,179 @@
+import { Op } from 'sequelize';
+
+/**
+ * Проверка плоского объекта (строки модели) на соответствие Sequelize WHERE условиям в памяти.
+ *
+ * Используется там, где повторный запрос в базу невозможен или слишком дорог
+ * (например, для фильтрации событий подписок). Неизвестные операторы считаются
+ * несовпадением, чтобы строка не утекла клиенту по ошибке.
+ */
+export function matchesWhere(row: Record<string, any>, where: any): boolean {
+  if (where === undefined || where === null) {
+    return true;
+  }
+
+  if (typeof where !== 'object' || Array.isArray(where)) {
+    return false;
+  }
+
+  for (const key of Object.keys(where)) {
+    const value = row[key];
+    const condition = where[key];
+
+    if (key.startsWith('$')) {
+      // Условия по вложенным ассоциациям ($assoc.field$) в памяти не проверить
+      return false;
+    }
+
+    if (!matchesCondition(value, condition)) {
+      return false;
+    }
+  }
+
+  for (const symbol of Object.getOwnPropertySymbols(where)) {
+    const condition = where[symbol];
+
+    if (symbol === Op.and) {
+      if (!toArray(condition).every(item => matchesWhere(row, item))) {
+        return false;
+      }
+    } else if (symbol === Op.or) {
+      if (!toArray(condition).some(item => matchesWhere(row, item))) {
+        return false;
+      }
+    } else if (symbol === Op.not) {
+      if (matchesWhere(row, condition)) {
+        return false;
+      }
+    } else {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+function matchesCondition(value: any, condition: any): boolean {
+  if (condition === null) {
+    return value === null || value === undefined;
+  }
+
+  if (Array.isArray(condition)) {
+    return condition.some(item => isEqual(value, item));
+  }
+
+  if (typeof condition !== 'object' || condition instanceof Date) {
+    return isEqual(value, condition);
+  }
+
+  const symbols = Object.getOwnPropertySymbols(condition);
+  if (symbols.length === 0) {
+    // Вложенный объект без операторов (например, JSON) сравниваем по значению
+    return JSON.stringify(value) === JSON.stringify(condition);
+  }
+
+  return symbols.every(symbol => matchesOperator(value, symbol, condition[symbol]));
+}
+
+function matchesOperator(value: any, operator: symbol, operand: any): boolean {
+  switch (operator) {
+    case Op.eq:
+      return operand === null ? value === null || value === undefined : isEqual(value, operand);
+    case Op.ne:
+      return operand === null ? value !== null && value !== undefined : !isEqual(value, operand);
+    case Op.is:
+      return operand === null ? value === null || value === undefined : value === operand;
+    case Op.not:
+      return operand === null ? value !== null && value !== undefined : !matchesCondition(value, operand);
+    case Op.in:
+      return toArray(operand).some(item => isEqual(value, item));
+    case Op.notIn:
+      return !toArray(operand).some(item => isEqual(value, item));
+    case Op.gt:
+      return compare(value, operand) > 0;
+    case Op.gte:
+      return compare(value, operand) >= 0;
+    case Op.lt:
+      return compare(value, operand) < 0;
+    case Op.lte:
+      return compare(value, operand) <= 0;
+    case Op.between: {
+      const [from, to] = toArray(operand);
+      return compare(value, from) >= 0 && compare(value, to) <= 0;
+    }
+    case Op.notBetween: {
+      const [from, to] = toArray(operand);
+      return compare(value, from) < 0 || compare(value, to) > 0;
+    }
+    case Op.like:
+      return matchesLike(value, operand, false);
+    case Op.notLike:
+      return !matchesLike(value, operand, false);
+    case Op.iLike:
+      return matchesLike(value, operand, true);
+    case Op.notILike:
+      return !matchesLike(value, operand, true);
+    case Op.startsWith:
+      return typeof value === 'string' && value.startsWith(String(operand));
+    case Op.endsWith:
+      return typeof value === 'string' && value.endsWith(String(operand));
+    case Op.substring:
+      return typeof value === 'string' && value.includes(String(operand));
+    case Op.and:
+      return toArray(operand).every(item => matchesCondition(value, item));
+    case Op.or:
+      return toArray(operand).some(item => matchesCondition(value, item));
+    default:
+      return false;
+  }
+}
+
+function matchesLike(value: any, pattern: any, caseInsensitive: boolean): boolean {
+  if (typeof value !== 'string' || typeof pattern !== 'string') {
+    return false;
+  }
+
+  const source = pattern
+    .split('')
+    .map(char => {
+      if (char === '%') return '.*';
+      if (char === '_') return '.';
+      return char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+
+  return new RegExp(`^${source}$`, caseInsensitive ? 'is' : 's').test(value);
+}
+
+function isEqual(left: any, right: any): boolean {
+  if (left instanceof Date || right instanceof Date) {
+    return new Date(left).getTime() === new Date(right).getTime();
+  }
+
+  if (left === null || left === undefined || right === null || right === undefined) {
+    return left === right;
+  }
+
+  // Значения из GraphQL аргументов часто приходят строками (id: String!)
+  return left === right || String(left) === String(right);
+}
+
+function compare(left: any, right: any): number {
+  if (left === null || left === undefined || right === null || right === undefined) {
+    return NaN;
+  }
+
+  if (left instanceof Date || right instanceof Date) {
+    return new Date(left).getTime() - new Date(right).getTime();
+  }
+
+  if (typeof left === 'number' || typeof right === 'number') {
+    return Number(left) - Number(right);
+  }
+
+  return String(left) < String(right) ? -1 : String(left) > String(right) ? 1 : 0;
+}
+
+function toArray(value: any): any[] {
+  return Array.isArray(value) ? value : [value];
+}
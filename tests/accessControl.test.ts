@@ -0,0 +1,109 @@
+import "reflect-metadata";
+import { describe, it, expect, beforeAll } from "vitest";
+import { Sequelize, DataTypes, Model, Op } from "sequelize";
+import { GQLModel, GQLField } from "../src/decorators";
+import { TestSchema, createTestSchema } from "./helpers";
+
+function defineModels(sequelize: Sequelize) {
+  class Employee extends Model {}
+  Employee.init({
+    name: { type: DataTypes.STRING, allowNull: false },
+    salary: { type: DataTypes.INTEGER, allowNull: true },
+    phone: { type: DataTypes.STRING, allowNull: true },
+    ownerId: { type: DataTypes.INTEGER, allowNull: false }
+  }, { sequelize, modelName: "Employee" });
+
+  class Report extends Model {}
+  Report.init({
+    title: { type: DataTypes.STRING, allowNull: false },
+    tenant: { type: DataTypes.STRING, allowNull: false },
+    archived: { type: DataTypes.BOOLEAN, allowNull: false, defaultValue: false }
+  }, { sequelize, modelName: "Report" });
+
+  GQLField({ auth: ["hr"] })(Employee.prototype, "salary");
+  // Телефон виден только самому сотруднику
+  GQLField({ auth: (req: any, parent: any) => parent?.ownerId === req?.user?.id, onUnauthorized: "error" })(Employee.prototype, "phone");
+  GQLModel({ access: { query: ["owner", "hr"], update: ["owner", "hr"], delete: ["hr"], owner: "ownerId" } })(Employee);
+  GQLModel({
+    authRequired: true,
+    // Условие authHandler само собрано через Op.and
+    authHandler: async (req: any) => (req?.user
+      ? { success: true, where: { [Op.and]: [{ tenant: req.user.tenant }, { archived: false }] } }
+      : { success: false })
+  })(Report);
+
+  return { Employee, Report };
+}
+
+async function seed({ Employee, Report }: ReturnType<typeof defineModels>) {
+  await Employee.create({ name: "alice", salary: 100, phone: "111", ownerId: 1 });
+  await Employee.create({ name: "bob", salary: 200, phone: "222", ownerId: 2 });
+  for (const [title, tenant, archived] of [["report 2025", "a", false], ["report 2026", "a", false], ["report 2026 old", "a", true], ["report 2026", "b", false]] as const) {
+    await Report.create({ title, tenant, archived });
+  }
+}
+
+const alice = { id: 1, role: "user", tenant: "a" };
+const hr = { id: 3, role: "hr", tenant: "a" };
+
+describe("Access control", () => {
+  let fixture: TestSchema<ReturnType<typeof defineModels>>;
+
+  beforeAll(async () => {
+    fixture = await createTestSchema(defineModels);
+    await seed(fixture);
+  });
+
+  it("limits users with the owner role to their own rows", async () => {
+    const own = await fixture.run(`{ employeeList(order: [{ field: id }]) { name } }`, alice);
+    const all = await fixture.run(`{ employeeList(order: [{ field: id }]) { name } }`, hr);
+    const anonymous = await fixture.run(`{ employeeList { name } }`);
+
+    expect(own.data.employeeList).toEqual([{ name: "alice" }]);
+    expect(all.data.employeeList).toEqual([{ name: "alice" }, { name: "bob" }]);
+    expect(anonymous.errors?.[0].extensions.code).toBe("UNAUTHENTICATED");
+  });
+
+  it("denies operations missing the user role", async () => {
+    const bob: any = await fixture.Employee.findOne({ where: { name: "bob" } });
+
+    const result = await fixture.run(`mutation { deleteEmployee(id: ${bob.id}) }`, alice);
+
+    expect(result.errors?.[0].extensions.code).toBe("FORBIDDEN");
+    expect(await fixture.Employee.count()).toBe(2);
+  });
+
+  it("resolves fields denied by role rules to null", async () => {
+    const own = await fixture.run(`{ employeeList { name salary } }`, alice);
+    const all = await fixture.run(`{ employeeList(order: [{ field: id }]) { salary } }`, hr);
+
+    expect(own.data.employeeList).toEqual([{ name: "alice", salary: null }]);
+    expect(all.data.employeeList).toEqual([{ salary: 100 }, { salary: 200 }]);
+  });
+
+  it("reports fields denied by function rules with onUnauthorized 'error'", async () => {
+    const own = await fixture.run(`{ employeeList { phone } }`, alice);
+    const other = await fixture.run(`{ employeeList(order: [{ field: id }]) { name phone } }`, hr);
+
+    expect(own.data.employeeList).toEqual([{ phone: "111" }]);
+    expect(other.errors?.map((error: any) => error.path.join("."))).toEqual(["employeeList.0.phone", "employeeList.1.phone"]);
+  });
+
+  it("rejects writes of fields the user cannot write", async () => {
+    const alicesRow: any = await fixture.Employee.findOne({ where: { name: "alice" } });
+
+    const result = await fixture.run(`mutation { updateEmployee(id: ${alicesRow.id}, input: { salary: 1000 }) { name } }`, alice);
+
+    expect(result.errors?.[0].extensions.code).toBe("FORBIDDEN");
+    expect((await fixture.Employee.findByPk(alicesRow.id) as any).salary).toBe(100);
+  });
+
+  it("keeps both the client filter and the Op.and condition of authHandler", async () => {
+    const result = await fixture.run(`{
+      reportList(where: { AND: [{ title: { contains: "report" } }, { title: { contains: "2026" } }] }) { title tenant }
+    }`, alice);
+
+    expect(result.errors).toBeUndefined();
+    expect(result.data.reportList).toEqual([{ title: "report 2026", tenant: "a" }]);
+  });
+});
@@ -0,0 +1,86 @@
+import "reflect-metadata";
+import { describe, it, expect, beforeAll } from "vitest";
+import { Sequelize, DataTypes, Model } from "sequelize";
+import { GQLModel } from "../src/decorators";
+import { TestSchema, createTestSchema } from "./helpers";
+
+function defineModels(sequelize: Sequelize) {
+  class Sale extends Model {}
+  Sale.init({
+    region: { type: DataTypes.STRING, allowNull: false },
+    quantity: { type: DataTypes.INTEGER, allowNull: false },
+    amount: { type: DataTypes.DECIMAL(12, 2), allowNull: false },
+    views: { type: DataTypes.BIGINT, allowNull: false }
+  }, { sequelize, modelName: "Sale" });
+
+  class Visit extends Model {}
+  Visit.init({ page: { type: DataTypes.STRING, allowNull: false } }, { sequelize, modelName: "Visit" });
+
+  GQLModel({ aggregate: { enabled: true } })(Sale);
+  GQLModel()(Visit);
+
+  return { Sale, Visit };
+}
+
+async function seed({ Sale }: ReturnType<typeof defineModels>) {
+  // Сумма просмотров больше Number.MAX_SAFE_INTEGER
+  await Sale.bulkCreate([
+    { region: "north", quantity: 2, amount: "10.25", views: "9007199254740993" },
+    { region: "north", quantity: 4, amount: "0.50", views: "2" },
+    { region: "south", quantity: 5, amount: "7.00", views: "1" }
+  ]);
+}
+
+describe("Aggregate queries", () => {
+  let fixture: TestSchema<ReturnType<typeof defineModels>>;
+
+  beforeAll(async () => {
+    fixture = await createTestSchema(defineModels);
+    await seed(fixture);
+  });
+
+  it("generates aggregate queries only for models that enable them", () => {
+    const queries = fixture.schema.getQueryType()!.getFields();
+
+    expect(queries.saleAggregate.args.map(arg => arg.name)).toEqual(["where", "groupBy"]);
+    expect(queries.visitAggregate).toBeUndefined();
+  });
+
+  it("returns count and sum/avg/min/max of the filtered rows", async () => {
+    const result = await fixture.run(`{
+      saleAggregate(where: { quantity: { gt: 1 } }) {
+        count
+        sum { quantity }
+        avg { quantity }
+        min { quantity }
+        max { quantity }
+      }
+    }`);
+
+    expect(result.errors).toBeUndefined();
+    expect(result.data.saleAggregate).toEqual([{
+      count: 3,
+      sum: { quantity: 11 },
+      avg: { quantity: 11 / 3 },
+      min: { quantity: 2 },
+      max: { quantity: 5 }
+    }]);
+  });
+
+  it("groups rows and keeps the precision of BIGINT and DECIMAL results", async () => {
+    const result = await fixture.run(`{
+      saleAggregate(groupBy: [region]) {
+        group { region }
+        count
+        sum { amount views }
+        max { views }
+      }
+    }`);
+
+    expect(result.errors).toBeUndefined();
+    expect(result.data.saleAggregate).toEqual([
+      { group: { region: "north" }, count: 2, sum: { amount: "10.75", views: "9007199254740995" }, max: { views: "9007199254740993" } },
+      { group: { region: "south" }, count: 1, sum: { amount: "7", views: "1" }, max: { views: "1" } }
+    ]);
+  });
+});
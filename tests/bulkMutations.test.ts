@@ -0,0 +1,86 @@
+import "reflect-metadata";
+import { describe, it, expect, beforeEach } from "vitest";
+import { Sequelize, DataTypes, Model } from "sequelize";
+import { GQLModel } from "../src/decorators";
+import { TestSchema, createTestSchema } from "./helpers";
+
+function defineModels(sequelize: Sequelize) {
+  class Item extends Model {}
+  Item.init({
+    name: { type: DataTypes.STRING, allowNull: false },
+    stock: { type: DataTypes.INTEGER, allowNull: false, defaultValue: 0 }
+  }, { sequelize, modelName: "Item" });
+
+  class Note extends Model {}
+  Note.init({ text: { type: DataTypes.STRING, allowNull: false } }, { sequelize, modelName: "Note" });
+
+  GQLModel({ bulk: { enabled: true, maxBatchSize: 3 } })(Item);
+  GQLModel()(Note);
+
+  return { Item, Note };
+}
+
+describe("Bulk mutations", () => {
+  let fixture: TestSchema<ReturnType<typeof defineModels>>;
+
+  const stock = async () => (await fixture.Item.findAll({ order: [["name", "ASC"]] }))
+    .map((item: any) => [item.name, item.stock]);
+
+  beforeEach(async () => {
+    fixture = await createTestSchema(defineModels);
+  });
+
+  it("generates bulk mutations only for models that enable them", () => {
+    const mutations = fixture.schema.getMutationType()!.getFields();
+
+    expect(Object.keys(mutations)).toEqual(expect.arrayContaining(["createManyItem", "updateManyItem", "deleteManyItem"]));
+    expect(mutations.createManyNote).toBeUndefined();
+  });
+
+  it("creates, updates and deletes rows returning counts and created records", async () => {
+    const created = await fixture.run(`mutation {
+      createManyItem(inputs: [{ name: "apple", stock: 2 }, { name: "pear" }, { name: "plum", stock: 9 }]) {
+        count records { name stock }
+      }
+    }`);
+    expect(created.errors).toBeUndefined();
+    expect(created.data.createManyItem).toEqual({
+      count: 3,
+      records: [{ name: "apple", stock: 2 }, { name: "pear", stock: 0 }, { name: "plum", stock: 9 }]
+    });
+
+    const updated = await fixture.run(`mutation { updateManyItem(where: { stock: { lt: 5 } }, input: { stock: 5 }) { count } }`);
+    expect(updated.errors).toBeUndefined();
+    expect(updated.data.updateManyItem).toEqual({ count: 2 });
+    expect(await stock()).toEqual([["apple", 5], ["pear", 5], ["plum", 9]]);
+
+    const deleted = await fixture.run(`mutation { deleteManyItem(where: { name: { in: ["apple", "plum"] } }) { count } }`);
+    expect(deleted.errors).toBeUndefined();
+    expect(deleted.data.deleteManyItem).toEqual({ count: 2 });
+    expect(await stock()).toEqual([["pear", 5]]);
+  });
+
+  it("rejects batches over maxBatchSize without changing any row", async () => {
+    const tooMany = await fixture.run(`mutation {
+      createManyItem(inputs: [{ name: "a" }, { name: "b" }, { name: "c" }, { name: "d" }]) { count }
+    }`);
+    expect(tooMany.errors![0].message).toBe("Batch size exceeds maximum allowed 3 rows for Item");
+    expect(tooMany.errors![0].extensions!.code).toBe("VALIDATION_FAILED");
+    expect(await fixture.Item.count()).toBe(0);
+
+    await fixture.Item.bulkCreate(["a", "b", "c", "d"].map(name => ({ name })));
+    const tooWide = await fixture.run(`mutation { updateManyItem(where: { stock: { eq: 0 } }, input: { stock: 1 }) { count } }`);
+    expect(tooWide.errors![0].message).toBe("Batch size exceeds maximum allowed 3 rows for Item");
+    expect(await fixture.Item.count({ where: { stock: 0 } })).toBe(4);
+  });
+
+  it("rolls back created rows when one of the inputs fails", async () => {
+    const result = await fixture.run(`mutation {
+      createManyItem(inputs: [{ name: "apple" }, { name: "pear", stock: null }]) { count }
+    }`);
+
+    expect(result.data).toBeNull();
+    expect(result.errors![0].extensions!.code).toBe("VALIDATION_FAILED");
+    expect(await fixture.Item.count()).toBe(0);
+  });
+});
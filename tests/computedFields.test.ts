@@ -0,0 +1,47 @@
+import "reflect-metadata";
+import { describe, it, expect } from "vitest";
+import { Sequelize, DataTypes, Model } from "sequelize";
+import { GraphQLHelper } from "../src/lib/GraphQLHelper";
+import { GQLModel } from "../src/decorators";
+import { createTestSchema } from "./helpers";
+
+function defineUser(sequelize: Sequelize, exposeGetters: Record<string, string>) {
+  class User extends Model {
+    get nameLength() {
+      return (this.get("name") as string).length;
+    }
+  }
+  User.init({ name: { type: DataTypes.STRING, allowNull: false } }, {
+    sequelize,
+    modelName: "User",
+    getterMethods: {
+      shout(this: any) {
+        return this.getDataValue("name").toUpperCase();
+      }
+    }
+  });
+
+  GQLModel({ exposeGetters })(User);
+
+  return { User };
+}
+
+describe("Computed fields", () => {
+  it("exposes getters with declared GraphQL types", async () => {
+    const { User, typeDefs, run } = await createTestSchema((sequelize) => defineUser(sequelize, { nameLength: "Int!", shout: "String" }));
+    await User.create({ name: "alice" });
+
+    const result = await run(`{ userList { nameLength shout } }`);
+
+    expect(typeDefs).toContain("nameLength: Int!");
+    expect(result.data.userList).toEqual([{ nameLength: 5, shout: "ALICE" }]);
+  });
+
+  it("rejects exposed names that are not getters", () => {
+    const sequelize = new Sequelize("sqlite::memory:", { logging: false });
+    const { User } = defineUser(sequelize, { name: "String" });
+    const helper = new GraphQLHelper(sequelize);
+
+    expect(() => helper.addModel(User)).toThrow("exposeGetters of User: name is not a getter of the model");
+  });
+});
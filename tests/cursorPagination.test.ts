@@ -0,0 +1,148 @@
+import "reflect-metadata";
+import { describe, it, expect, beforeAll } from "vitest";
+import { Sequelize, DataTypes, Model, Op } from "sequelize";
+import { buildKeysetWhere } from "../src/utils/cursorPagination";
+import { GQLModel } from "../src/decorators";
+import { TestSchema, createTestSchema } from "./helpers";
+
+function defineModels(sequelize: Sequelize) {
+  class Task extends Model {}
+  Task.init({
+    title: { type: DataTypes.STRING, allowNull: false },
+    priority: { type: DataTypes.INTEGER, allowNull: true }
+  }, { sequelize, modelName: "Task" });
+
+  // Составной первичный ключ без колонки id
+  class Slot extends Model {}
+  Slot.init({
+    day: { type: DataTypes.INTEGER, primaryKey: true },
+    hour: { type: DataTypes.INTEGER, primaryKey: true },
+    label: { type: DataTypes.STRING, allowNull: true }
+  }, { sequelize, modelName: "Slot", timestamps: false });
+
+  GQLModel({ pagination: { cursor: true } })(Task);
+  GQLModel({ pagination: { cursor: true } })(Slot);
+
+  return { Task, Slot };
+}
+
+async function seed({ Task, Slot }: ReturnType<typeof defineModels>) {
+  const priorities = [3, null, 1, null, 2, 1, null];
+  for (const [index, priority] of priorities.entries()) {
+    await Task.create({ title: `task${index + 1}`, priority });
+  }
+  for (const day of [1, 2]) {
+    for (const hour of [1, 2, 3]) {
+      await Slot.create({ day, hour, label: hour === 2 ? null : "busy" });
+    }
+  }
+}
+
+const TASK_PAGE = `
+  query ($first: Int, $after: String, $last: Int, $before: String, $order: [TaskOrderBy!]) {
+    taskConnection(first: $first, after: $after, last: $last, before: $before, order: $order) {
+      edges { node { title } }
+      pageInfo { hasNextPage hasPreviousPage startCursor endCursor }
+    }
+  }
+`;
+
+describe("Cursor pagination", () => {
+  let fixture: TestSchema<ReturnType<typeof defineModels>>;
+
+  beforeAll(async () => {
+    fixture = await createTestSchema(defineModels);
+    await seed(fixture);
+  });
+
+  const query = async (source: string, variables: Record<string, any> = {}) => {
+    const { data, errors } = await fixture.run(source, undefined, variables);
+    if (errors) {
+      throw new Error(errors[0].message);
+    }
+    return data;
+  };
+
+  // Проходит все страницы вперед (или назад) и собирает названия
+  const collectPages = async (order: any[], backward: boolean = false) => {
+    const titles: string[] = [];
+    let cursor: string | null = null;
+
+    for (let page = 0; page < 10; page++) {
+      const variables = backward ? { last: 2, before: cursor, order } : { first: 2, after: cursor, order };
+      const { taskConnection } = await query(TASK_PAGE, variables);
+      const pageTitles = taskConnection.edges.map((edge: any) => edge.node.title);
+      titles.splice(backward ? 0 : titles.length, 0, ...pageTitles);
+
+      const hasMore = backward ? taskConnection.pageInfo.hasPreviousPage : taskConnection.pageInfo.hasNextPage;
+      if (!hasMore) {
+        return titles;
+      }
+      cursor = backward ? taskConnection.pageInfo.startCursor : taskConnection.pageInfo.endCursor;
+    }
+
+    throw new Error("Pagination does not terminate");
+  };
+
+  const expectedOrder = async (direction: "ASC" | "DESC") => {
+    const rows = await fixture.Task.findAll({ order: [["priority", direction], ["id", "ASC"]] });
+    return rows.map((row: any) => row.title);
+  };
+
+  it("pages through rows with NULL sort values in both directions", async () => {
+    for (const direction of ["ASC", "DESC"] as const) {
+      const order = [{ field: "priority", direction }];
+      const expected = await expectedOrder(direction);
+
+      expect(expected).toHaveLength(7);
+      expect(await collectPages(order)).toEqual(expected);
+      expect(await collectPages(order, true)).toEqual(expected);
+    }
+  });
+
+  it("uses every primary key column as the tiebreaker", async () => {
+    const source = `
+      query ($after: String) {
+        slotConnection(first: 2, after: $after, order: [{ field: label }]) {
+          edges { node { day hour } }
+          pageInfo { hasNextPage endCursor }
+        }
+      }
+    `;
+    const keys: string[] = [];
+    let after: string | null = null;
+
+    for (let page = 0; page < 5; page++) {
+      const { slotConnection } = await query(source, { after });
+      keys.push(...slotConnection.edges.map((edge: any) => `${edge.node.day}:${edge.node.hour}`));
+      if (!slotConnection.pageInfo.hasNextPage) {
+        break;
+      }
+      after = slotConnection.pageInfo.endCursor;
+    }
+
+    expect(keys).toEqual(["1:2", "2:2", "1:1", "1:3", "2:1", "2:3"]);
+  });
+
+  it("places NULL rows according to the dialect null ordering", () => {
+    const orderKeys: any = [["priority", "ASC"], ["id", "ASC"]];
+    const options = { nullLargest: true, isNullable: (field: string) => field !== "id" };
+
+    // PostgreSQL: NULL больше любого значения и идет после курсора
+    expect(buildKeysetWhere(orderKeys, [5, 1], options)).toEqual({
+      [Op.or]: [
+        { priority: { [Op.or]: [{ [Op.gt]: 5 }, { [Op.is]: null }] } },
+        { priority: { [Op.eq]: 5 }, id: { [Op.gt]: 1 } }
+      ]
+    });
+    expect(buildKeysetWhere(orderKeys, [null, 1], options)).toEqual({
+      [Op.or]: [{ priority: { [Op.is]: null }, id: { [Op.gt]: 1 } }]
+    });
+    expect(buildKeysetWhere(orderKeys, [null, 1], { ...options, before: true })).toEqual({
+      [Op.or]: [
+        { priority: { [Op.not]: null } },
+        { priority: { [Op.is]: null }, id: { [Op.lt]: 1 } }
+      ]
+    });
+  });
+});
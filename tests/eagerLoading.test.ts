@@ -0,0 +1,71 @@
+import "reflect-metadata";
+import { describe, it, expect, beforeAll } from "vitest";
+import { Sequelize, DataTypes, Model } from "sequelize";
+import { GQLModel, GQLField } from "../src/decorators";
+import { TestSchema, createTestSchema } from "./helpers";
+
+function defineModels(sequelize: Sequelize) {
+  class User extends Model {}
+  User.init({ name: { type: DataTypes.STRING, allowNull: false } }, { sequelize, modelName: "User" });
+
+  class Post extends Model {}
+  Post.init({
+    title: { type: DataTypes.STRING, allowNull: false },
+    draft: { type: DataTypes.BOOLEAN, allowNull: false, defaultValue: false },
+    body: { type: DataTypes.STRING, allowNull: true },
+    notes: { type: DataTypes.STRING, allowNull: true }
+  }, { sequelize, modelName: "Post" });
+
+  Post.belongsTo(User, { as: "author", foreignKey: "authorId" });
+  User.hasMany(Post, { as: "posts", foreignKey: "authorId" });
+
+  // Правило читает внешний ключ, который клиент не запрашивает
+  GQLField({ auth: (req: any, parent: any) => parent?.authorId === req?.user?.id })(Post.prototype, "notes");
+  // Правило читает обычную колонку, объявленную в authDependsOn
+  GQLField({ auth: (req: any, parent: any) => parent?.draft === false, authDependsOn: ["draft"] })(Post.prototype, "body");
+
+  GQLModel()(User);
+  GQLModel()(Post);
+
+  return { User, Post };
+}
+
+async function seed({ User, Post }: ReturnType<typeof defineModels>) {
+  const alice: any = await User.create({ name: "alice" });
+  await Post.create({ title: "Published", body: "Visible", notes: "Alice's notes", authorId: alice.id });
+  await Post.create({ title: "Draft", draft: true, body: "Hidden", notes: "Draft notes", authorId: alice.id });
+
+  return { alice };
+}
+
+describe("Eager loading", () => {
+  let fixture: TestSchema<ReturnType<typeof defineModels>>;
+  let alice: any;
+
+  beforeAll(async () => {
+    fixture = await createTestSchema(defineModels, { helper: { eagerLoading: true } });
+    ({ alice } = await seed(fixture));
+  });
+
+  it("loads foreign keys for field auth rules when only other columns are requested", async () => {
+    const result = await fixture.run(`{ postList(order: [{ field: id }]) { title notes } }`, { id: alice.id });
+
+    expect(result.errors).toBeUndefined();
+    expect(result.data.postList).toEqual([
+      { title: "Published", notes: "Alice's notes" },
+      { title: "Draft", notes: "Draft notes" }
+    ]);
+  });
+
+  it("loads columns declared in authDependsOn", async () => {
+    const result = await fixture.run(`{ postList(order: [{ field: id }]) { body } }`);
+
+    expect(result.data.postList).toEqual([{ body: "Visible" }, { body: null }]);
+  });
+
+  it("loads keys of nested includes", async () => {
+    const result = await fixture.run(`{ userList { name posts { notes } } }`, { id: alice.id });
+
+    expect(result.data.userList[0].posts.map((post: any) => post.notes).sort()).toEqual(["Alice's notes", "Draft notes"]);
+  });
+});
@@ -0,0 +1,71 @@
+import "reflect-metadata";
+import { describe, it, expect, beforeAll } from "vitest";
+import { Sequelize, DataTypes, Model } from "sequelize";
+import { GraphQLEnumType, GraphQLSchema } from "graphql";
+import { GQLModel, GQLField } from "../src/decorators";
+import { TestSchema, createTestSchema } from "./helpers";
+
+function defineModels(sequelize: Sequelize) {
+  class Order extends Model {}
+  Order.init({
+    status: { type: DataTypes.ENUM("new", "in-progress", "done"), allowNull: false },
+    priority: { type: DataTypes.ENUM("1", "2"), allowNull: false }
+  }, { sequelize, modelName: "Order" });
+
+  class Task extends Model {}
+  Task.init({ state: { type: DataTypes.ENUM("new", "in-progress", "done"), allowNull: false } }, { sequelize, modelName: "Task" });
+
+  GQLField({ enumName: "Priority" })(Order.prototype, "priority");
+  GQLModel()(Order);
+  GQLModel()(Task);
+
+  return { Order, Task };
+}
+
+const enumValues = (schema: GraphQLSchema, name: string) =>
+  (schema.getType(name) as GraphQLEnumType).getValues().map(value => value.name);
+
+// Значения в верхнем регистре, приоритеты с префиксом
+const enumValueNaming = (value: string) => /^[0-9]/.test(value) ? `P${value}` : value.toUpperCase().replace(/-/g, "_");
+
+describe("ENUM columns", () => {
+  let fixture: TestSchema<ReturnType<typeof defineModels>>;
+
+  beforeAll(async () => {
+    fixture = await createTestSchema(defineModels, { helper: { enumValueNaming } });
+  });
+
+  it("generates one enum for identical ENUM columns and uses enumName of GQLField", () => {
+    const { schema } = fixture;
+
+    expect(enumValues(schema, "OrderStatus")).toEqual(["NEW", "IN_PROGRESS", "DONE"]);
+    expect(enumValues(schema, "Priority")).toEqual(["P1", "P2"]);
+    // Статус задачи совпадает со статусом заказа
+    expect(schema.getType("TaskState")).toBeUndefined();
+    expect(String((schema.getType("Task") as any).getFields().state.type)).toBe("OrderStatus!");
+  });
+
+  it("translates enum values to database values and back", async () => {
+    const created = await fixture.run(`mutation {
+      createOrder(input: { status: IN_PROGRESS, priority: P2 }) { status priority }
+    }`);
+    expect(created.errors).toBeUndefined();
+    expect(created.data.createOrder).toEqual({ status: "IN_PROGRESS", priority: "P2" });
+    expect((await fixture.Order.findOne() as any).status).toBe("in-progress");
+
+    await fixture.Task.create({ state: "done" });
+    const result = await fixture.run(`{
+      orderList(where: { status: { in: [NEW, IN_PROGRESS] } }) { status }
+      taskList(where: { state: { eq: DONE } }) { state }
+    }`);
+    expect(result.errors).toBeUndefined();
+    expect(result.data).toEqual({ orderList: [{ status: "IN_PROGRESS" }], taskList: [{ state: "DONE" }] });
+  });
+
+  it("replaces invalid characters of enum values by default", async () => {
+    const { schema } = await createTestSchema(defineModels);
+
+    expect(enumValues(schema, "OrderStatus")).toEqual(["new", "in_progress", "done"]);
+    expect(enumValues(schema, "Priority")).toEqual(["_1", "_2"]);
+  });
+});
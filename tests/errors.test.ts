@@ -0,0 +1,122 @@
+import "reflect-metadata";
+import { describe, it, expect, beforeAll, afterEach, vi } from "vitest";
+import { Sequelize, DataTypes, Model } from "sequelize";
+import { GraphQLError } from "graphql";
+import { ForbiddenError, UnauthenticatedError } from "../src/lib/GraphQLErrors";
+import { createErrorFormatter, mapSequelizeError } from "../src/utils/formatError";
+import { executeGraphQLRequest } from "../src/utils/graphqlRequest";
+import { GQLModel } from "../src/decorators";
+import { TestSchema, createTestSchema } from "./helpers";
+
+function defineModels(sequelize: Sequelize) {
+  class Account extends Model {}
+  Account.init({
+    email: { type: DataTypes.STRING, allowNull: false, unique: true, validate: { isEmail: true } },
+    name: { type: DataTypes.STRING, allowNull: false }
+  }, { sequelize, modelName: "Account" });
+
+  class Invoice extends Model {}
+  Invoice.init({ total: { type: DataTypes.INTEGER, allowNull: false } }, { sequelize, modelName: "Invoice" });
+
+  Invoice.belongsTo(Account, { as: "account", foreignKey: "accountId" });
+  Account.hasMany(Invoice, { as: "invoices", foreignKey: "accountId" });
+
+  GQLModel()(Account);
+  GQLModel({ access: { query: ["billing"] } })(Invoice);
+
+  return { Account, Invoice };
+}
+
+async function seed({ Account, Invoice }: ReturnType<typeof defineModels>) {
+  const account: any = await Account.create({ email: "alice@a.test", name: "alice" });
+  await Invoice.create({ total: 100, accountId: account.id });
+}
+
+describe("Error handling", () => {
+  let fixture: TestSchema<ReturnType<typeof defineModels>>;
+
+  beforeAll(async () => {
+    fixture = await createTestSchema(defineModels, { transactions: "mutation", errors: { maskInternalErrors: true } });
+    await seed(fixture);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("maps Sequelize validation and unique constraint errors to per-field details", async () => {
+    const invalid = await fixture.Account.create({ email: "not an email" }).catch(error => error);
+    const duplicate = await fixture.Account.create({ email: "alice@a.test", name: "copy" }).catch(error => error);
+
+    expect(mapSequelizeError(invalid)?.extensions).toEqual({
+      code: "VALIDATION_FAILED",
+      fields: [
+        { field: "name", message: "Account.name cannot be null", validator: "is_null" },
+        { field: "email", message: "Validation isEmail on email failed", validator: "isEmail" }
+      ]
+    });
+    expect(mapSequelizeError(duplicate)?.extensions).toEqual({
+      code: "CONFLICT",
+      fields: [{ field: "email", message: "email must be unique", validator: "not_unique" }]
+    });
+    expect(mapSequelizeError(new Error("other"))).toBeNull();
+  });
+
+  it("returns field details of failed mutations", async () => {
+    const response = await fixture.request(`mutation { createAccount(input: { email: "alice@a.test", name: "copy" }) { id } }`);
+
+    expect(response.status).toBe(200);
+    expect(response.body.data).toBeNull();
+    expect(response.body.errors![0].message).toBe("Unique constraint violated");
+    expect(response.body.errors![0].extensions).toEqual({
+      code: "CONFLICT",
+      fields: [{ field: "email", message: "email must be unique", validator: "not_unique" }]
+    });
+  });
+
+  it("masks messages and stack traces of unexpected errors in production", () => {
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+    const production = createErrorFormatter({ maskInternalErrors: true });
+    const development = createErrorFormatter({ maskInternalErrors: false });
+
+    const internal = new GraphQLError("connection refused", { originalError: new Error("connection refused") });
+    const formatted = { message: "connection refused", extensions: { code: "INTERNAL_SERVER_ERROR", stacktrace: ["Error: connection refused"] } };
+
+    expect(production(formatted, internal)).toEqual({ message: "Internal server error", extensions: { code: "INTERNAL_SERVER_ERROR" } });
+    expect(development(formatted, internal)).toEqual(formatted);
+
+    // Типизированные ошибки безопасны и не маскируются
+    const forbidden = new GraphQLError("Access denied", { originalError: new ForbiddenError() });
+    expect(production({ message: "Access denied", extensions: { code: "FORBIDDEN" } }, forbidden))
+      .toEqual({ message: "Access denied", extensions: { code: "FORBIDDEN" } });
+  });
+
+  it("sets HTTP status only for auth errors rejecting the whole operation", async () => {
+    expect(new ForbiddenError().extensions).toEqual({ code: "FORBIDDEN" });
+    expect(new UnauthenticatedError(undefined, { operation: true }).extensions).toEqual({ code: "UNAUTHENTICATED", http: { status: 401 } });
+
+    const anonymous = await fixture.request(`{ invoiceList { total } }`);
+    const forbidden = await fixture.request(`{ invoiceList { total } }`, { id: 1, role: "user" });
+    const nested = await fixture.request(`{ accountList { name invoices { total } } }`, { id: 1, role: "user" });
+
+    expect([anonymous.status, anonymous.body.errors![0].extensions!.code]).toEqual([401, "UNAUTHENTICATED"]);
+    expect([forbidden.status, forbidden.body.errors![0].extensions!.code]).toEqual([403, "FORBIDDEN"]);
+    // Запрет вложенного поля оставляет частичный ответ со статусом 200
+    expect(nested.status).toBe(200);
+    expect(nested.body.data).toEqual({ accountList: [{ name: "alice", invoices: null }] });
+    expect(nested.body.errors![0].extensions).toEqual({ code: "FORBIDDEN" });
+  });
+
+  it("returns { errors } bodies for requests failing outside of GraphQL execution", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+
+    const { server, transactionManager, formatError } = fixture;
+    const missing = await executeGraphQLRequest({ server, transactionManager, formatError }, undefined, {});
+    expect(missing).toEqual({ status: 400, body: { errors: [{ message: "Query is required", extensions: { code: "BAD_REQUEST" } }] } });
+
+    vi.spyOn(fixture.transactionManager, "run").mockRejectedValue(new Error("SQLITE_BUSY: database is locked"));
+    const failed = await fixture.request(`mutation { createAccount(input: { email: "bob@b.test", name: "bob" }) { id } }`);
+
+    expect(failed).toEqual({ status: 500, body: { errors: [{ message: "Internal server error", extensions: { code: "INTERNAL_SERVER_ERROR" } }] } });
+  });
+});
@@ -0,0 +1,84 @@
+import "reflect-metadata";
+import { describe, it, expect, beforeAll } from "vitest";
+import { Sequelize, DataTypes, Model } from "sequelize";
+import { GQLModel, GQLField } from "../src/decorators";
+import { TestSchema, createTestSchema } from "./helpers";
+
+function defineModels(sequelize: Sequelize) {
+  class Tenant extends Model {}
+  Tenant.init({ name: { type: DataTypes.STRING, allowNull: false } }, { sequelize, modelName: "Tenant" });
+
+  class User extends Model {}
+  User.init({
+    email: { type: DataTypes.STRING, allowNull: false },
+    tenant: { type: DataTypes.STRING, allowNull: false },
+    salary: { type: DataTypes.INTEGER, allowNull: true }
+  }, { sequelize, modelName: "User" });
+
+  class Post extends Model {}
+  Post.init({ title: { type: DataTypes.STRING, allowNull: false } }, { sequelize, modelName: "Post" });
+
+  Post.belongsTo(User, { as: "author", foreignKey: "authorId" });
+  User.belongsTo(Tenant, { as: "company", foreignKey: "companyId" });
+
+  GQLField({ auth: ["admin"] })(User.prototype, "salary");
+  GQLModel({ access: { query: ["admin"] } })(Tenant);
+  // Пользователи видны только внутри своего тенанта
+  GQLModel({
+    authRequired: true,
+    authHandler: async (req: any) => (req?.user ? { success: true, where: { tenant: req.user.tenant } } : { success: false })
+  })(User);
+  GQLModel()(Post);
+
+  return { Tenant, User, Post };
+}
+
+async function seed({ Tenant, User, Post }: ReturnType<typeof defineModels>) {
+  const acme = await Tenant.create({ name: "acme" });
+  const alice: any = await User.create({ email: "alice@a.test", tenant: "a", salary: 100, companyId: acme.get("id") });
+  const bob: any = await User.create({ email: "bob@b.test", tenant: "b", salary: 200 });
+  await Post.create({ title: "Alice's post", authorId: alice.id });
+  await Post.create({ title: "Bob's post", authorId: bob.id });
+}
+
+const titles = (result: any) => result.data.postList.map((post: any) => post.title);
+
+describe("Filters", () => {
+  let fixture: TestSchema<ReturnType<typeof defineModels>>;
+  const userA = { id: 1, tenant: "a", role: "user" };
+
+  beforeAll(async () => {
+    fixture = await createTestSchema(defineModels);
+    await seed(fixture);
+  });
+
+  it("filters by fields of BelongsTo associations", async () => {
+    const result = await fixture.run(`{ postList(where: { author: { email: { endsWith: "@a.test" } } }) { title } }`, userA);
+
+    expect(result.errors).toBeUndefined();
+    expect(titles(result)).toEqual(["Alice's post"]);
+  });
+
+  it("does not match association rows hidden by the target authHandler", async () => {
+    const result = await fixture.run(`{ postList(where: { author: { email: { eq: "bob@b.test" } } }) { title } }`, userA);
+
+    expect(result.errors).toBeUndefined();
+    expect(titles(result)).toEqual([]);
+  });
+
+  it("denies association filters when the target model denies read", async () => {
+    const anonymous = await fixture.run(`{ postList(where: { author: { email: { eq: "alice@a.test" } } }) { title } }`);
+    const nested = await fixture.run(`{ postList(where: { author: { company: { name: { eq: "acme" } } } }) { title } }`, userA);
+    const admin = await fixture.run(`{ postList(where: { author: { company: { name: { eq: "acme" } } } }) { title } }`, { ...userA, role: "admin" });
+
+    expect(anonymous.errors?.[0].extensions.code).toBe("FORBIDDEN");
+    expect(nested.errors?.[0].extensions.code).toBe("FORBIDDEN");
+    expect(titles(admin)).toEqual(["Alice's post"]);
+  });
+
+  it("denies filtering by fields the user cannot read", async () => {
+    const result = await fixture.run(`{ postList(where: { author: { salary: { gt: 150 } } }) { title } }`, userA);
+
+    expect(result.errors?.[0].extensions.code).toBe("FORBIDDEN");
+  });
+});
@@ -0,0 +1,77 @@
+import "reflect-metadata";
+import { Sequelize, ModelStatic, Model } from "sequelize";
+import { ApolloServer } from "@apollo/server";
+import { makeExecutableSchema } from "@graphql-tools/schema";
+import { GraphQLHelper } from "../src/lib/GraphQLHelper";
+import { LoaderRegistry } from "../src/lib/LoaderRegistry";
+import { PubSubEngine } from "../src/lib/PubSub";
+import { TransactionManager, TransactionMode } from "../src/lib/TransactionManager";
+import { ErrorFormatterOptions, createErrorFormatter } from "../src/utils/formatError";
+import { QueryLimitsOptions, createQueryLimitsPlugin } from "../src/utils/queryLimits";
+import { executeGraphQLRequest } from "../src/utils/graphqlRequest";
+import type { GraphQLHelperOptions } from "../src/lib/types";
+
+export type TestModels = Record<string, ModelStatic<Model>>;
+
+export interface TestSchemaOptions {
+  /** Options of GraphQLHelper */
+  helper?: GraphQLHelperOptions;
+  /** SQLite database file, in-memory database by default */
+  storage?: string;
+  transactions?: TransactionMode;
+  pubsub?: PubSubEngine;
+  errors?: ErrorFormatterOptions;
+  queryLimits?: QueryLimitsOptions;
+  /** Custom queries, mutations and types registered after the models */
+  setup?: (helper: GraphQLHelper) => void;
+}
+
+/**
+ * Test database, generated schema and Apollo Server of the given models.
+ * Every model returned by `defineModels` is added to GraphQLHelper in the same order.
+ */
+export async function createTestSchema<M extends TestModels>(defineModels: (sequelize: Sequelize) => M, options: TestSchemaOptions = {}) {
+  const sequelize = new Sequelize({ dialect: "sqlite", storage: options.storage ?? ":memory:", logging: false });
+  const models = defineModels(sequelize);
+  await sequelize.sync();
+
+  const helper = new GraphQLHelper(sequelize, options.helper);
+  if (options.pubsub) {
+    helper.setPubSub(options.pubsub);
+  }
+  for (const model of Object.values(models)) {
+    helper.addModel(model);
+  }
+  options.setup?.(helper);
+
+  const { typeDefs, resolvers } = helper.getSchema() as { typeDefs: string, resolvers: Record<string, any> };
+  const schema = makeExecutableSchema({ typeDefs, resolvers });
+
+  const formatError = createErrorFormatter(options.errors);
+  const getFieldCost = (typeName: string, fieldName: string) => helper.getFieldCost(typeName, fieldName);
+  const server = new ApolloServer({
+    schema,
+    formatError,
+    plugins: options.queryLimits ? [createQueryLimitsPlugin(options.queryLimits, getFieldCost)] : []
+  });
+  const transactionManager = new TransactionManager(sequelize, { mode: options.transactions ?? "none" });
+
+  /**
+   * Send operation the way the POST endpoint does: context with per request loaders,
+   * transaction mode and HTTP status of the response
+   */
+  const request = (source: string, user?: any, variables?: Record<string, any>) =>
+    executeGraphQLRequest({ server, transactionManager, formatError }, { query: source, variables }, {
+      user: user ?? null,
+      req: { user },
+      pubsub: helper.getPubSub(),
+      loaders: new LoaderRegistry()
+    });
+
+  const run = async (source: string, user?: any, variables?: Record<string, any>): Promise<{ data?: any, errors?: any[] }> =>
+    (await request(source, user, variables)).body as any;
+
+  return { ...models, sequelize, helper, typeDefs, resolvers, schema, server, transactionManager, formatError, request, run };
+}
+
+export type TestSchema<M extends TestModels> = Awaited<ReturnType<typeof createTestSchema<M>>>;
@@ -0,0 +1,110 @@
+import "reflect-metadata";
+import { describe, it, expect, beforeAll } from "vitest";
+import { Sequelize, DataTypes, Model } from "sequelize";
+import { GraphQLInputObjectType, GraphQLSchema } from "graphql";
+import { GQLModel, GQLField } from "../src/decorators";
+import { TestSchema, createTestSchema } from "./helpers";
+
+function defineModels(sequelize: Sequelize) {
+  class Article extends Model {}
+  Article.init({
+    title: { type: DataTypes.STRING, allowNull: false },
+    status: { type: DataTypes.STRING, allowNull: false, defaultValue: "draft" },
+    position: { type: DataTypes.INTEGER, allowNull: false },
+    summary: { type: DataTypes.STRING, allowNull: true }
+  }, { sequelize, modelName: "Article" });
+
+  class Country extends Model {}
+  Country.init({
+    code: { type: DataTypes.STRING, allowNull: false, primaryKey: true },
+    name: { type: DataTypes.STRING, allowNull: false }
+  }, { sequelize, modelName: "Country" });
+
+  class Ticket extends Model {}
+  Ticket.init({
+    id: { type: DataTypes.INTEGER, allowNull: false, primaryKey: true, autoIncrement: true },
+    subject: { type: DataTypes.STRING, allowNull: false }
+  }, { sequelize, modelName: "Ticket", timestamps: false });
+
+  // Код страны задает клиент, дату создания можно перенести при импорте
+  GQLField({ writable: true })(Country.prototype, "code");
+  GQLField({ writable: true })(Country.prototype, "createdAt");
+  // Номер тикета можно сохранить при переносе из другой системы
+  GQLField({ writable: true })(Ticket.prototype, "id");
+  GQLModel()(Article);
+  GQLModel()(Country);
+  GQLModel()(Ticket);
+
+  return { Article, Country, Ticket };
+}
+
+/**
+ * Fields of the input type as `name: Type`
+ */
+function inputFields(schema: GraphQLSchema, typeName: string): string[] {
+  const type = schema.getType(typeName) as GraphQLInputObjectType | undefined;
+  return type ? Object.values(type.getFields()).map(field => `${field.name}: ${field.type}`) : [];
+}
+
+describe("Mutation input types", () => {
+  let fixture: TestSchema<ReturnType<typeof defineModels>>;
+
+  beforeAll(async () => {
+    fixture = await createTestSchema(defineModels);
+  });
+
+  it("requires only non-null columns without default on create and nothing on update", () => {
+    expect(inputFields(fixture.schema, "CreateArticleInput")).toEqual([
+      "title: String!", "status: String", "position: Int!", "summary: String"
+    ]);
+    expect(inputFields(fixture.schema, "UpdateArticleInput")).toEqual([
+      "title: String", "status: String", "position: Int", "summary: String"
+    ]);
+    expect(fixture.schema.getType("ArticleInput")).toBeUndefined();
+  });
+
+  it("leaves primary keys and timestamps out unless GQLField makes them writable", () => {
+    expect(inputFields(fixture.schema, "CreateArticleInput").join()).not.toMatch(/\b(id|createdAt|updatedAt):/);
+    expect(inputFields(fixture.schema, "UpdateArticleInput").join()).not.toMatch(/\b(id|createdAt|updatedAt):/);
+    // Первичный ключ без значения по умолчанию обязателен, временную метку Sequelize заполнит сам
+    expect(inputFields(fixture.schema, "CreateCountryInput")).toEqual(["code: String!", "name: String!", "createdAt: DateTime"]);
+    // Автоинкремент при создании необязателен
+    expect(inputFields(fixture.schema, "CreateTicketInput")).toEqual(["id: Int", "subject: String!"]);
+  });
+
+  it("creates rows with defaults and updates them partially", async () => {
+    const created = await fixture.run(`mutation { createArticle(input: { title: "First", position: 1 }) { id title status summary } }`);
+    expect(created.errors).toBeUndefined();
+    expect(created.data.createArticle).toMatchObject({ title: "First", status: "draft", summary: null });
+
+    const updated = await fixture.run(`mutation { updateArticle(id: ${created.data.createArticle.id}, input: { status: "published" }) { title status position } }`);
+    expect(updated.errors).toBeUndefined();
+    expect(updated.data.updateArticle).toEqual({ title: "First", status: "published", position: 1 });
+
+    const missing = await fixture.run(`mutation { createArticle(input: { title: "Second" }) { id } }`);
+    expect(missing.errors![0].message).toContain("position");
+
+    const country = await fixture.run(`mutation {
+      createCountry(input: { code: "NL", name: "Netherlands", createdAt: "2020-01-01T00:00:00.000Z" }) { code createdAt }
+    }`);
+    expect(country.errors).toBeUndefined();
+    expect(country.data.createCountry).toEqual({ code: "NL", createdAt: "2020-01-01T00:00:00.000Z" });
+
+    const tickets = await fixture.run(`mutation {
+      generated: createTicket(input: { subject: "Broken link" }) { id }
+      imported: createTicket(input: { id: 100, subject: "Typo" }) { id }
+    }`);
+    expect(tickets.errors).toBeUndefined();
+    expect(tickets.data).toEqual({ generated: { id: 1 }, imported: { id: 100 } });
+  });
+
+  it("generates single <Model>Input with legacyInputTypes", async () => {
+    const legacy = await createTestSchema(defineModels, { helper: { legacyInputTypes: true } });
+
+    expect(legacy.schema.getType("CreateArticleInput")).toBeUndefined();
+    expect(inputFields(legacy.schema, "ArticleInput")).toContain("title: String!");
+    expect(legacy.schema.getMutationType()!.getFields().createArticle.args[0].type.toString()).toBe("ArticleInput!");
+    expect(legacy.schema.getMutationType()!.getFields().updateArticle.args.map(arg => `${arg.name}: ${arg.type}`))
+      .toEqual(["id: Int!", "input: ArticleInput!"]);
+  });
+});
@@ -0,0 +1,107 @@
+import "reflect-metadata";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { Sequelize, DataTypes, Model } from "sequelize";
+import { parse, execute } from "graphql";
+import { LoaderRegistry } from "../src/lib/LoaderRegistry";
+import { GQLModel } from "../src/decorators";
+import { TestSchema, createTestSchema } from "./helpers";
+
+function defineModels(sequelize: Sequelize) {
+  class User extends Model {}
+  User.init({ name: { type: DataTypes.STRING, allowNull: false } }, { sequelize, modelName: "User" });
+
+  class Post extends Model {}
+  Post.init({ title: { type: DataTypes.STRING, allowNull: false } }, { sequelize, modelName: "Post" });
+
+  class Tag extends Model {}
+  Tag.init({ name: { type: DataTypes.STRING, allowNull: false } }, { sequelize, modelName: "Tag" });
+
+  Post.belongsTo(User, { as: "author", foreignKey: "authorId" });
+  User.hasMany(Post, { as: "posts", foreignKey: "authorId" });
+  Post.belongsToMany(Tag, { as: "tags", through: "PostTags", foreignKey: "postId", otherKey: "tagId" });
+
+  GQLModel()(User);
+  GQLModel()(Post);
+  GQLModel()(Tag);
+
+  return { User, Post, Tag };
+}
+
+async function seed({ User, Post, Tag }: ReturnType<typeof defineModels>) {
+  const [alice, bob]: any[] = await Promise.all([User.create({ name: "alice" }), User.create({ name: "bob" })]);
+  const [news, draft]: any[] = await Promise.all([Tag.create({ name: "news" }), Tag.create({ name: "draft" })]);
+
+  for (const [title, author, tags] of [["first", alice, [news]], ["second", bob, [news, draft]], ["third", alice, []]] as const) {
+    const post: any = await Post.create({ title, authorId: author.id });
+    await post.setTags(tags);
+  }
+}
+
+describe("Association loaders", () => {
+  let fixture: TestSchema<ReturnType<typeof defineModels>>;
+
+  beforeEach(async () => {
+    fixture = await createTestSchema(defineModels);
+    await seed(fixture);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("loads each association of a list with one batched query", async () => {
+    const { User, Post, Tag } = fixture;
+    const findUsers = vi.spyOn(User, "findAll");
+    const findPosts = vi.spyOn(Post, "findAll");
+    const findTags = vi.spyOn(Tag, "findAll");
+
+    const result = await fixture.run(`{
+      postList(order: [{ field: id }]) { title author { name posts { title } } tags { name } }
+    }`);
+
+    expect(result.errors).toBeUndefined();
+    expect(result.data.postList.map((post: any) => [post.title, post.author.name, post.tags.map((tag: any) => tag.name)])).toEqual([
+      ["first", "alice", ["news"]],
+      ["second", "bob", ["news", "draft"]],
+      ["third", "alice", []]
+    ]);
+    expect(result.data.postList[0].author.posts.map((post: any) => post.title)).toEqual(["first", "third"]);
+
+    // Список постов и пачка постов авторов
+    expect(findPosts).toHaveBeenCalledTimes(2);
+    expect(findUsers).toHaveBeenCalledTimes(1);
+    expect(findTags).toHaveBeenCalledTimes(1);
+  });
+
+  it("caches loaded rows for one request only", async () => {
+    const { User } = fixture;
+    const findUsers = vi.spyOn(User, "findAll");
+    const source = `{ postList(order: [{ field: id }]) { author { name } } }`;
+
+    // Второй список того же запроса берет авторов из кэша
+    await fixture.run(`{ first: postList { author { name } } second: postList { author { name } } }`);
+    expect(findUsers).toHaveBeenCalledTimes(1);
+
+    await User.update({ name: "alice v2" }, { where: { name: "alice" } });
+    const result = await fixture.run(source);
+
+    expect(result.data.postList[0].author.name).toBe("alice v2");
+    expect(findUsers).toHaveBeenCalledTimes(2);
+  });
+
+  it("reloads rows for every execution of a long-lived context without cache", async () => {
+    const { User, schema } = fixture;
+    const document = parse(`{ postList(order: [{ field: id }]) { author { name } } }`);
+    // Подписка выполняет каждое событие в одном и том же контексте
+    const live = { req: {}, loaders: new LoaderRegistry({ cache: false }) };
+    const cached = { req: {}, loaders: new LoaderRegistry() };
+    const authorOf = async (contextValue: any) =>
+      ((await execute({ schema, document, contextValue })) as any).data.postList[0].author.name;
+
+    expect([await authorOf(live), await authorOf(cached)]).toEqual(["alice", "alice"]);
+    await User.update({ name: "alice v2" }, { where: { name: "alice" } });
+
+    expect(await authorOf(live)).toBe("alice v2");
+    expect(await authorOf(cached)).toBe("alice");
+  });
+});
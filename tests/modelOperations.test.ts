@@ -0,0 +1,86 @@
+import "reflect-metadata";
+import { describe, it, expect, beforeAll } from "vitest";
+import { Sequelize, DataTypes, Model, Op } from "sequelize";
+import { GQLModel, GQLQuery, GQLMutation } from "../src/decorators";
+import { TestSchema, createTestSchema } from "./helpers";
+
+function defineModels(sequelize: Sequelize) {
+  class Post extends Model {
+    static search(args: { term: string }, context: any, info: any, where: any) {
+      return Post.findAll({ where: { [Op.and]: [where, { title: { [Op.like]: `%${args.term}%` } }] }, order: [["id", "ASC"]] });
+    }
+
+    static async publish(args: { id: string }, context: any, info: any, where: any) {
+      const post = await Post.findOne({ where: { [Op.and]: [where, { id: args.id }] } });
+      return post ? post.update({ published: true }) : null;
+    }
+
+    static ping() {
+      return "pong";
+    }
+  }
+  Post.init({
+    title: { type: DataTypes.STRING, allowNull: false },
+    published: { type: DataTypes.BOOLEAN, allowNull: false, defaultValue: false },
+    authorId: { type: DataTypes.INTEGER, allowNull: false }
+  }, { sequelize, modelName: "Post" });
+
+  GQLQuery({ type: Post, list: true, args: { term: { type: String, nullable: false } } })(Post, "search");
+  GQLMutation({ type: Post, args: { id: "ID!" } })(Post, "publish");
+  GQLQuery({ type: String, access: false })(Post, "ping");
+  GQLModel({
+    access: { query: ["user"], update: ["owner", "admin"], owner: "authorId" },
+    authRequired: true,
+    // Неопубликованные посты видны только авторам
+    authHandler: async (req: any, where: any, operation: any) => ({
+      success: true,
+      where: operation === "query" ? { [Op.or]: [{ published: true }, { authorId: req?.user?.id ?? null }] } : undefined
+    })
+  })(Post);
+
+  return { Post };
+}
+
+async function seed({ Post }: ReturnType<typeof defineModels>) {
+  await Post.create({ title: "Alice draft", authorId: 1 });
+  await Post.create({ title: "Bob draft", authorId: 2 });
+  await Post.create({ title: "Bob release", published: true, authorId: 2 });
+}
+
+const alice = { id: 1, role: "user" };
+
+describe("Model operations", () => {
+  let fixture: TestSchema<ReturnType<typeof defineModels>>;
+
+  beforeAll(async () => {
+    fixture = await createTestSchema(defineModels);
+    await seed(fixture);
+  });
+
+  it("applies access rules and authHandler conditions of the model to @GQLQuery", async () => {
+    const anonymous = await fixture.run(`{ search(term: "draft") { title } }`);
+    const result = await fixture.run(`{ search(term: "") { title } }`, alice);
+
+    expect(anonymous.errors?.[0].extensions.code).toBe("UNAUTHENTICATED");
+    expect(result.data.search.map((post: any) => post.title)).toEqual(["Alice draft", "Bob release"]);
+  });
+
+  it("checks @GQLMutation as update and scopes it to owned rows", async () => {
+    const { Post, run } = fixture;
+    const bobPost: any = await Post.findOne({ where: { title: "Bob draft" } });
+    const alicePost: any = await Post.findOne({ where: { title: "Alice draft" } });
+
+    const foreign = await run(`mutation { publish(id: "${bobPost.id}") { published } }`, alice);
+    const own = await run(`mutation { publish(id: "${alicePost.id}") { published } }`, alice);
+
+    expect(foreign.data.publish).toBeNull();
+    expect(own.data.publish).toEqual({ published: true });
+    expect((await Post.findByPk(bobPost.id) as any).published).toBe(false);
+  });
+
+  it("skips the check when access is false", async () => {
+    const result = await fixture.run(`{ ping }`);
+
+    expect(result.data.ping).toBe("pong");
+  });
+});
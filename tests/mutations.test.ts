@@ -0,0 +1,113 @@
+import "reflect-metadata";
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { Sequelize, DataTypes, Model } from "sequelize";
+import { AccessControl } from "../src/lib/AccessControl";
+import { GQLModel } from "../src/decorators";
+import { TestSchema, createTestSchema } from "./helpers";
+
+function defineModels(sequelize: Sequelize) {
+  class Note extends Model {}
+  Note.init({
+    title: { type: DataTypes.STRING, allowNull: false },
+    ownerId: { type: DataTypes.INTEGER, allowNull: false }
+  }, { sequelize, modelName: "Note" });
+
+  GQLModel({ access: { create: ["owner"], update: ["owner", "admin"], owner: "ownerId" }, upsert: { enabled: true, conflictTarget: ["title"] } })(Note);
+
+  class Setting extends Model {}
+  Setting.init({
+    key: { type: DataTypes.STRING, allowNull: false, unique: true },
+    value: { type: DataTypes.STRING, allowNull: true }
+  }, { sequelize, modelName: "Setting", paranoid: true });
+
+  class Label extends Model {}
+  Label.init({ name: { type: DataTypes.STRING, allowNull: false, unique: true } }, { sequelize, modelName: "Label" });
+
+  GQLModel({ upsert: { enabled: true } })(Setting);
+  GQLModel({ upsert: { enabled: true } })(Label);
+
+  return { Note, Setting, Label };
+}
+
+const alice = { req: { user: { id: 1, role: "user" } } };
+const bob = { req: { user: { id: 2, role: "user" } } };
+const admin = { req: { user: { id: 3, role: "admin" } } };
+
+describe("Generated mutations", () => {
+  let fixture: TestSchema<ReturnType<typeof defineModels>>;
+  let mutations: any;
+
+  beforeEach(async () => {
+    fixture = await createTestSchema(defineModels);
+    mutations = fixture.resolvers.Mutation;
+    vi.restoreAllMocks();
+  });
+
+  it("sets the owner on create and keeps it on update", async () => {
+    const note = await mutations.createNote(null, { input: { title: "Draft", ownerId: 2 } }, { ...alice });
+    expect(note.get("ownerId")).toBe(1);
+
+    const updated = await mutations.updateNote(null, { id: note.get("id"), input: { title: "Final", ownerId: 2 } }, { ...alice });
+    expect(updated.get("title")).toBe("Final");
+    expect(updated.get("ownerId")).toBe(1);
+
+    // Администратор не ограничен владельцем и может передать запись
+    const reassigned = await mutations.updateNote(null, { id: note.get("id"), input: { ownerId: 2 } }, { ...admin });
+    expect(reassigned.get("ownerId")).toBe(2);
+  });
+
+  it("returns null when the row is not owned by the user", async () => {
+    const { Note } = fixture;
+    const note = await mutations.createNote(null, { input: { title: "Alice's" } }, { ...alice });
+
+    expect(await mutations.updateNote(null, { id: note.get("id"), input: { title: "Bob's" } }, { ...bob })).toBeNull();
+    expect((await Note.findByPk(note.get("id")) as any).title).toBe("Alice's");
+  });
+
+  it("authorizes update once and loads the row in the update transaction", async () => {
+    const { Note } = fixture;
+    const note = await mutations.createNote(null, { input: { title: "Draft" } }, { ...alice });
+
+    const authorizeOperation = vi.spyOn(AccessControl.prototype, "authorizeOperation");
+    const findOne = vi.spyOn(Note, "findOne");
+    const update = vi.spyOn(Note.prototype, "update");
+
+    await mutations.updateNote(null, { id: note.get("id"), input: { title: "Final" } }, { ...alice });
+
+    expect(authorizeOperation).toHaveBeenCalledTimes(1);
+    const transaction = (findOne.mock.calls[0][0] as any).transaction;
+    expect(transaction).toBeDefined();
+    expect((update.mock.calls[0][1] as any).transaction).toBe(transaction);
+  });
+
+  it("restores a soft-deleted row matched by upsert", async () => {
+    const { Setting } = fixture;
+    const setting: any = await Setting.create({ key: "theme", value: "light" });
+    await setting.destroy();
+
+    const upserted = await mutations.upsertSetting(null, { input: { key: "theme", value: "dark" } }, { ...alice });
+
+    expect(upserted.get("id")).toBe(setting.id);
+    const rows: any[] = await Setting.findAll();
+    expect(rows.map(row => [row.key, row.value])).toEqual([["theme", "dark"]]);
+  });
+
+  it("authorizes both paths of native upsert", async () => {
+    const { sequelize, Note, Label } = fixture;
+    vi.spyOn(sequelize, "getDialect").mockReturnValue("postgres");
+    const upsert = vi.spyOn(Label, "upsert").mockImplementation(async (values: any) => [Label.build(values), true] as any);
+    const authorizeOperation = vi.spyOn(AccessControl.prototype, "authorizeOperation");
+
+    await mutations.upsertLabel(null, { input: { name: "urgent" } }, { ...alice });
+
+    expect(authorizeOperation.mock.calls.map(call => call[3])).toEqual(["create", "update"]);
+    expect(upsert).toHaveBeenCalledTimes(1);
+
+    // Правила access исключают native upsert: путь выбирается под блокировкой строки
+    vi.spyOn(Note, "upsert");
+    const note = await mutations.upsertNote(null, { input: { title: "Draft", ownerId: 2 } }, { ...alice });
+
+    expect(Note.upsert).not.toHaveBeenCalled();
+    expect(note.get("ownerId")).toBe(1);
+  });
+});
@@ -0,0 +1,105 @@
+import "reflect-metadata";
+import { describe, it, expect, beforeEach } from "vitest";
+import { Sequelize, DataTypes, Model } from "sequelize";
+import { GQLModel } from "../src/decorators";
+import { TestSchema, createTestSchema } from "./helpers";
+
+function defineModels(sequelize: Sequelize) {
+  class Post extends Model {}
+  Post.init({ title: { type: DataTypes.STRING, allowNull: false } }, { sequelize, modelName: "Post" });
+
+  class Tag extends Model {}
+  Tag.init({
+    name: { type: DataTypes.STRING, allowNull: false },
+    tenant: { type: DataTypes.STRING, allowNull: false }
+  }, { sequelize, modelName: "Tag" });
+
+  Post.belongsToMany(Tag, { as: "tags", through: "PostTags", foreignKey: "postId", otherKey: "tagId" });
+
+  GQLModel()(Post);
+  // Метки других арендаторов не видны и не могут быть привязаны
+  GQLModel({
+    authRequired: true,
+    authHandler: async (req: any) => (req?.user ? { success: true, where: { tenant: req.user.tenant } } : { success: false })
+  })(Tag);
+
+  return { Post, Tag };
+}
+
+async function seed({ Tag }: ReturnType<typeof defineModels>) {
+  await Tag.bulkCreate([
+    { name: "news", tenant: "a" },
+    { name: "draft", tenant: "a" },
+    { name: "secret", tenant: "b" }
+  ]);
+}
+
+const alice = { id: 1, role: "user", tenant: "a" };
+
+const tagNames = (post: any) => post.tags.map((tag: any) => tag.name).sort();
+
+describe("Nested mutations", () => {
+  let fixture: TestSchema<ReturnType<typeof defineModels>>;
+  let tagIds: Record<string, number>;
+
+  beforeEach(async () => {
+    fixture = await createTestSchema(defineModels);
+    await seed(fixture);
+    const tags: any[] = await fixture.Tag.findAll();
+    tagIds = Object.fromEntries(tags.map(tag => [tag.name, tag.id]));
+  });
+
+  it("creates and connects BelongsToMany rows together with the root row", async () => {
+    const result = await fixture.run(`mutation {
+      createPost(input: { title: "first", tags: { create: [{ name: "fresh", tenant: "a" }], connect: [${tagIds.news}] } }) {
+        title tags { name tenant }
+      }
+    }`, alice);
+
+    expect(result.errors).toBeUndefined();
+    expect(result.data.createPost.title).toBe("first");
+    expect(tagNames(result.data.createPost)).toEqual(["fresh", "news"]);
+    expect(await fixture.Tag.count()).toBe(4);
+  });
+
+  it("disconnects, connects and replaces links of an existing row", async () => {
+    const created = await fixture.run(`mutation {
+      createPost(input: { title: "first", tags: { connect: [${tagIds.news}] } }) { id }
+    }`, alice);
+    const id = created.data.createPost.id;
+
+    const changed = await fixture.run(`mutation {
+      updatePost(id: ${id}, input: { tags: { disconnect: [${tagIds.news}], connect: [${tagIds.draft}] } }) { tags { name } }
+    }`, alice);
+    expect(changed.errors).toBeUndefined();
+    expect(tagNames(changed.data.updatePost)).toEqual(["draft"]);
+
+    const replaced = await fixture.run(`mutation {
+      updatePost(id: ${id}, input: { title: "renamed", tags: { set: [${tagIds.news}] } }) { title tags { name } }
+    }`, alice);
+    expect(replaced.errors).toBeUndefined();
+    expect(replaced.data.updatePost.title).toBe("renamed");
+    expect(tagNames(replaced.data.updatePost)).toEqual(["news"]);
+  });
+
+  it("applies authHandler of the related model and rolls back the whole mutation", async () => {
+    const hidden = await fixture.run(`mutation {
+      createPost(input: { title: "leak", tags: { connect: [${tagIds.secret}] } }) { id }
+    }`, alice);
+
+    expect(hidden.data).toEqual({ createPost: null });
+    expect(hidden.errors![0].extensions!.code).toBe("NOT_FOUND");
+
+    // Без пользователя authHandler меток отказывает и во вложенном создании
+    const anonymous = await fixture.run(`mutation {
+      createPost(input: { title: "anonymous", tags: { create: [{ name: "spam", tenant: "a" }] } }) { id }
+    }`);
+
+    expect(anonymous.data).toEqual({ createPost: null });
+    expect(anonymous.errors![0].extensions!.code).toBe("FORBIDDEN");
+
+    // Корневая строка создается первой и откатывается вместе с вложенными операциями
+    expect(await fixture.Post.count()).toBe(0);
+    expect(await fixture.Tag.count()).toBe(3);
+  });
+});
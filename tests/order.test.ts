@@ -0,0 +1,64 @@
+import "reflect-metadata";
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { Sequelize, DataTypes, Model } from "sequelize";
+import { GQLModel } from "../src/decorators";
+import { TestSchema, createTestSchema } from "./helpers";
+
+function defineModels(sequelize: Sequelize) {
+  class Task extends Model {}
+  Task.init({
+    title: { type: DataTypes.STRING, allowNull: false },
+    priority: { type: DataTypes.INTEGER, allowNull: true, field: "task_priority" }
+  }, { sequelize, modelName: "Task" });
+
+  GQLModel()(Task);
+
+  return { Task };
+}
+
+async function seed({ Task }: ReturnType<typeof defineModels>) {
+  for (const [title, priority] of [["a", 2], ["b", null], ["c", 1]] as const) {
+    await Task.create({ title, priority });
+  }
+}
+
+describe("Order", () => {
+  let fixture: TestSchema<ReturnType<typeof defineModels>>;
+
+  beforeEach(async () => {
+    fixture = await createTestSchema(defineModels);
+    await seed(fixture);
+  });
+
+  const list = (nulls: "FIRST" | "LAST") => fixture.run(`{ taskList(order: [{ field: priority, direction: ASC, nulls: ${nulls} }]) { title } }`);
+
+  it("uses NULLS FIRST/LAST where the dialect supports it", async () => {
+    const first = await list("FIRST");
+    const last = await list("LAST");
+
+    expect(first.data.taskList.map((task: any) => task.title)).toEqual(["b", "c", "a"]);
+    expect(last.data.taskList.map((task: any) => task.title)).toEqual(["c", "a", "b"]);
+  });
+
+  it("emulates null ordering with ISNULL in MySQL", async () => {
+    const { sequelize, Task } = fixture;
+    vi.spyOn(sequelize, "getDialect").mockReturnValue("mysql");
+    const findAll = vi.spyOn(Task, "findAll").mockResolvedValue([]);
+
+    await list("FIRST");
+
+    const [isNull, column] = (findAll.mock.calls[0][0] as any).order;
+    expect(isNull[0].fn).toBe("ISNULL");
+    expect(isNull[0].args[0].col).toBe("Task.task_priority");
+    expect(isNull[1]).toBe("DESC");
+    expect(column).toEqual(["priority", "ASC"]);
+  });
+
+  it("rejects null ordering in dialects without support", async () => {
+    vi.spyOn(fixture.sequelize, "getDialect").mockReturnValue("mssql");
+
+    const result = await list("LAST");
+
+    expect(result.errors?.[0].extensions.code).toBe("VALIDATION_FAILED");
+  });
+});
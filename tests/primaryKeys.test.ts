@@ -0,0 +1,113 @@
+import "reflect-metadata";
+import { describe, it, expect, beforeEach } from "vitest";
+import { Sequelize, DataTypes, Model } from "sequelize";
+import { GraphQLSchema } from "graphql";
+import { GQLModel, GQLField } from "../src/decorators";
+import { TestSchema, createTestSchema } from "./helpers";
+
+function defineModels(sequelize: Sequelize) {
+  class Country extends Model {}
+  Country.init({
+    code: { type: DataTypes.STRING, allowNull: false, primaryKey: true },
+    name: { type: DataTypes.STRING, allowNull: false }
+  }, { sequelize, modelName: "Country", timestamps: false });
+
+  class Membership extends Model {}
+  Membership.init({
+    userId: { type: DataTypes.INTEGER, allowNull: false, primaryKey: true },
+    groupId: { type: DataTypes.INTEGER, allowNull: false, primaryKey: true },
+    role: { type: DataTypes.STRING, allowNull: false }
+  }, { sequelize, modelName: "Membership", timestamps: false });
+
+  class Account extends Model {}
+  Account.init({
+    email: { type: DataTypes.STRING, allowNull: false, unique: true },
+    tenant: { type: DataTypes.STRING, allowNull: false },
+    login: { type: DataTypes.STRING, allowNull: false }
+  }, {
+    sequelize,
+    modelName: "Account",
+    indexes: [{ unique: true, fields: ["tenant", "login"] }]
+  });
+
+  GQLField({ writable: true })(Country.prototype, "code");
+  GQLField({ writable: true })(Membership.prototype, "userId");
+  GQLField({ writable: true })(Membership.prototype, "groupId");
+  GQLModel()(Country);
+  GQLModel()(Membership);
+  GQLModel({ uniqueLookups: true })(Account);
+
+  return { Country, Membership, Account };
+}
+
+async function seed({ Country, Membership, Account }: ReturnType<typeof defineModels>) {
+  await Country.bulkCreate([{ code: "NL", name: "Netherlands" }, { code: "PT", name: "Portugal" }]);
+  await Membership.bulkCreate([{ userId: 1, groupId: 1, role: "owner" }, { userId: 1, groupId: 2, role: "member" }]);
+  await Account.bulkCreate([
+    { email: "alice@a.test", tenant: "a", login: "alice" },
+    { email: "bob@b.test", tenant: "b", login: "alice" }
+  ]);
+}
+
+const args = (schema: GraphQLSchema, type: "Query" | "Mutation", field: string) =>
+  (type === "Query" ? schema.getQueryType() : schema.getMutationType())!.getFields()[field].args.map(arg => `${arg.name}: ${arg.type}`);
+
+describe("Primary keys and unique lookups", () => {
+  let fixture: TestSchema<ReturnType<typeof defineModels>>;
+
+  beforeEach(async () => {
+    fixture = await createTestSchema(defineModels);
+    await seed(fixture);
+  });
+
+  it("uses the name and type of the primary key in single row operations", async () => {
+    expect(args(fixture.schema, "Query", "country")).toEqual(["code: String!"]);
+    expect(args(fixture.schema, "Mutation", "deleteCountry")).toEqual(["code: String!"]);
+
+    const result = await fixture.run(`mutation {
+      updateCountry(code: "PT", input: { name: "Portuguese Republic" }) { code name }
+      deleteCountry(code: "NL")
+    }`);
+    expect(result.errors).toBeUndefined();
+    expect(result.data).toEqual({ updateCountry: { code: "PT", name: "Portuguese Republic" }, deleteCountry: true });
+
+    const found = await fixture.run(`{ country(code: "PT") { name } removed: country(code: "NL") { name } }`);
+    expect(found.data).toEqual({ country: { name: "Portuguese Republic" }, removed: null });
+  });
+
+  it("addresses rows with composite keys through <Model>Key input", async () => {
+    expect(args(fixture.schema, "Query", "membership")).toEqual(["key: MembershipKey!"]);
+
+    const result = await fixture.run(`mutation {
+      updateMembership(key: { userId: 1, groupId: 2 }, input: { role: "admin" }) { userId groupId role }
+      deleteMembership(key: { userId: 1, groupId: 1 })
+    }`);
+    expect(result.errors).toBeUndefined();
+    expect(result.data.updateMembership).toEqual({ userId: 1, groupId: 2, role: "admin" });
+
+    const found = await fixture.run(`{
+      admin: membership(key: { userId: 1, groupId: 2 }) { role }
+      removed: membership(key: { userId: 1, groupId: 1 }) { role }
+    }`);
+    expect(found.data).toEqual({ admin: { role: "admin" }, removed: null });
+  });
+
+  it("looks rows up by unique indexes with uniqueLookups", async () => {
+    const queries = fixture.schema.getQueryType()!.getFields();
+    expect(queries.countryByName).toBeUndefined();
+    expect(args(fixture.schema, "Query", "accountByTenantAndLogin")).toEqual(["tenant: String!", "login: String!"]);
+
+    const result = await fixture.run(`{
+      accountByEmail(email: "bob@b.test") { tenant login }
+      accountByTenantAndLogin(tenant: "a", login: "alice") { email }
+      missing: accountByEmail(email: "carol@c.test") { email }
+    }`);
+
+    expect(result.errors).toBeUndefined();
+    expect(result.data).toEqual({
+      accountByEmail: { tenant: "b", login: "alice" },
+      accountByTenantAndLogin: { email: "alice@a.test" },
+      missing: null
+    });
+  });
+});
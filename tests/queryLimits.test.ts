@@ -0,0 +1,113 @@
+import "reflect-metadata";
+import { describe, it, expect, beforeAll, afterEach, vi } from "vitest";
+import { Sequelize, DataTypes, Model } from "sequelize";
+import { parse } from "graphql";
+import { analyzeOperation } from "../src/utils/queryLimits";
+import { GQLModel, GQLField } from "../src/decorators";
+import { TestSchema, createTestSchema } from "./helpers";
+
+function defineModels(sequelize: Sequelize) {
+  class Author extends Model {}
+  Author.init({ name: { type: DataTypes.STRING, allowNull: false } }, { sequelize, modelName: "Author" });
+
+  class Book extends Model {}
+  Book.init({
+    title: { type: DataTypes.STRING, allowNull: false },
+    summary: { type: DataTypes.STRING, allowNull: true }
+  }, { sequelize, modelName: "Book" });
+
+  Book.belongsTo(Author, { as: "author", foreignKey: "authorId" });
+  Author.hasMany(Book, { as: "books", foreignKey: "authorId" });
+
+  // Сводка считается дорого
+  GQLField({ cost: 5 })(Book.prototype, "summary");
+  GQLModel()(Author);
+  GQLModel({ pagination: { cursor: true } })(Book);
+
+  return { Author, Book };
+}
+
+const LIMITS = { maxDepth: 3, maxComplexity: 100, maxAliases: 2, maxRootFields: 2 };
+
+describe("Query limits", () => {
+  let fixture: TestSchema<ReturnType<typeof defineModels>>;
+
+  beforeAll(async () => {
+    fixture = await createTestSchema(defineModels, { queryLimits: LIMITS });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const costOf = (source: string, variables: Record<string, any> = {}, limits = {}) =>
+    analyzeOperation(fixture.schema, parse(source), undefined, variables, limits,
+      (typeName, fieldName) => fixture.helper.getFieldCost(typeName, fieldName));
+
+  it.each([
+    ["depth", `{ authorList(limit: 1) { books { author { name } } } }`, "Query depth 4 exceeds maximum allowed 3"],
+    ["complexity", `{ authorList { books { title } } }`, "Query complexity 110 exceeds maximum allowed 100"],
+    ["aliases", `{ a: authorList(limit: 1) { name } b: authorList(limit: 1) { name } c: authorList(limit: 1) { name } }`, "Number of aliases 3 exceeds maximum allowed 2"],
+    ["rootFields", `{ authorList(limit: 1) { name } bookList(limit: 1) { title } author(id: 1) { name } }`, "Number of root fields 3 exceeds maximum allowed 2"]
+  ])("rejects operations over the %s limit before any resolver runs", async (limit, source, message) => {
+    const findAuthors = vi.spyOn(fixture.Author, "findAll");
+    const findBooks = vi.spyOn(fixture.Book, "findAll");
+    const count = vi.spyOn(fixture.Author, "count");
+
+    const response = await fixture.request(source);
+
+    expect(response.status).toBe(400);
+    expect(response.body.data).toBeUndefined();
+    expect(response.body.errors![0].message).toBe(message);
+    expect(response.body.errors![0].extensions).toMatchObject({
+      code: "QUERY_LIMIT_EXCEEDED",
+      limit,
+      maximum: LIMITS[`max${limit[0].toUpperCase()}${limit.slice(1)}` as keyof typeof LIMITS],
+      cost: costOf(source, {}, LIMITS)
+    });
+    expect(findAuthors).not.toHaveBeenCalled();
+    expect(findBooks).not.toHaveBeenCalled();
+    expect(count).not.toHaveBeenCalled();
+  });
+
+  it("runs operations within the limits", async () => {
+    const result = await fixture.run(`{ authorList(limit: 2) { name books { title } } }`);
+
+    expect(result.errors).toBeUndefined();
+    expect(result.data.authorList).toEqual([]);
+  });
+
+  it("applies cost overrides of GQLField", () => {
+    expect(costOf(`{ bookList(limit: 2) { title } }`)?.complexity).toBe(2);
+    expect(costOf(`{ bookList(limit: 2) { title summary } }`)?.complexity).toBe(12);
+  });
+
+  it("multiplies list costs by limit and first arguments", () => {
+    // Без limit список считается размером defaultListSize
+    expect(costOf(`{ authorList { name } }`)?.complexity).toBe(10);
+    expect(costOf(`{ authorList(limit: 3) { books { title } } }`)?.complexity).toBe(33);
+    expect(costOf(`query ($limit: Int) { authorList(limit: $limit) { name } }`, { limit: 4 })?.complexity).toBe(4);
+    // Размер страницы connection учтен один раз, edges не умножаются повторно
+    expect(costOf(`{ bookConnection(first: 5) { edges { node { author { name } } } } }`)?.complexity).toBe(5 * (1 + 1 + 1 + 1));
+  });
+
+  it("analyzes fragments spread many times once per parent type", () => {
+    // Каждый фрагмент дважды разворачивает следующий: без запоминания 2^40 полей
+    const levels = 40;
+    const fragments = Array.from({ length: levels }, (_, index) => index % 2 === 0
+      ? `fragment F${index} on Author { a: books { ...F${index + 1} } b: books { ...F${index + 1} } }`
+      : `fragment F${index} on Book { a: author { ...F${index + 1} } b: author { ...F${index + 1} } }`);
+    fragments.push(`fragment F${levels} on Author { name }`);
+    const source = `{ authorList(limit: 1) { ...F0 } } ${fragments.join(" ")}`;
+
+    const cost = analyzeOperation(fixture.schema, parse(source), undefined, {}, { maxDepth: 100 })!;
+
+    expect(cost.depth).toBe(levels + 2);
+    expect(cost.nodes).toBeLessThan(5 * levels);
+
+    // Анализ останавливается на первом превышенном лимите
+    const limited = analyzeOperation(fixture.schema, parse(source), undefined, {}, { maxDepth: 5 })!;
+    expect(limited.depth).toBeGreaterThan(5);
+    expect(limited.nodes).toBeLessThan(20);
+  });
+});
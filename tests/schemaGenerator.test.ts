@@ -0,0 +1,46 @@
+import "reflect-metadata";
+import { describe, it, expect } from "vitest";
+import { Sequelize, DataTypes, Model } from "sequelize";
+import { GraphQLSchemaGenerator } from "../src/utils/schemaGenerator";
+
+function defineEvent() {
+  const sequelize = new Sequelize("sqlite::memory:", { logging: false });
+
+  class Event extends Model {}
+  Event.init({
+    startsAt: { type: DataTypes.DATE, allowNull: true },
+    budget: { type: DataTypes.DECIMAL(10, 2), allowNull: true },
+    views: { type: DataTypes.BIGINT, allowNull: true },
+    ref: { type: DataTypes.UUID, allowNull: true }
+  }, { sequelize, modelName: "Event", timestamps: false });
+
+  return Event;
+}
+
+const eventType = (typeDefs: string) => typeDefs.slice(typeDefs.indexOf("type Event {"), typeDefs.indexOf("}", typeDefs.indexOf("type Event {")));
+
+describe("GraphQLSchemaGenerator", () => {
+  it("maps Sequelize types to registered scalars", () => {
+    const generator = new GraphQLSchemaGenerator();
+    generator.addModel(defineEvent() as any);
+
+    const type = eventType(generator.generateSchema().typeDefs);
+
+    expect(type).toContain("startsAt: DateTime");
+    expect(type).toContain("budget: Decimal");
+    expect(type).toContain("views: BigInt");
+    expect(type).toContain("ref: UUID");
+  });
+
+  it("keeps the previous mapping with legacyTypeMapping", () => {
+    const generator = new GraphQLSchemaGenerator({ legacyTypeMapping: true });
+    generator.addModel(defineEvent() as any);
+
+    const type = eventType(generator.generateSchema().typeDefs);
+
+    expect(type).toContain("startsAt: String");
+    expect(type).toContain("budget: Float");
+    expect(type).toContain("views: Int");
+    expect(type).toContain("ref: String");
+  });
+});
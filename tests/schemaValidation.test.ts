@@ -0,0 +1,105 @@
+import "reflect-metadata";
+import { describe, it, expect, vi } from "vitest";
+import { Sequelize, DataTypes, Model } from "sequelize";
+import { makeExecutableSchema } from "@graphql-tools/schema";
+import { GraphQLHelper } from "../src/lib/GraphQLHelper";
+import { GQLModel } from "../src/decorators";
+
+function createHelper() {
+  const sequelize = new Sequelize("sqlite::memory:", { logging: false });
+
+  class Post extends Model {}
+  Post.init({
+    title: { type: DataTypes.STRING, allowNull: false },
+    status: { type: DataTypes.ENUM("draft", "published"), allowNull: false }
+  }, { sequelize, modelName: "Post" });
+  GQLModel()(Post);
+
+  const helper = new GraphQLHelper(sequelize);
+  helper.addModel(Post, "app-blog");
+  return helper;
+}
+
+const resolver = () => null;
+
+describe("Schema validation", () => {
+  it("reports invalid arguments of custom operations with their source", () => {
+    const helper = createHelper();
+
+    // Тип аргумента объявлен после регистрации запроса
+    helper.addQuery({ name: "search", type: "[Post]", args: [{ name: "filter", type: "SearchFilter" }], resolver }, "app-search");
+    helper.addType("input SearchFilter { term: String }", "app-search");
+    helper.addQuery({ name: "byPost", type: "Post", args: [{ name: "post", type: "Post!" }], resolver }, "app-search");
+    helper.addMutation({ name: "tag", outputType: "Post", args: [{ name: "label", type: "Label" }], resolver }, "app-tags");
+    helper.addSubscription({ name: "ticks", type: "Int", args: [{ name: "every", type: "Int", defaultValue: Infinity }], resolver });
+
+    const diagnostics = helper.validateSchema().filter(diagnostic => diagnostic.code === "INVALID_ARGUMENT");
+
+    expect(diagnostics.map(({ coordinate, sources }) => [coordinate, sources])).toEqual([
+      ["Query.byPost", ["app-search"]],
+      ["Mutation.tag", ["app-tags"]],
+      ["Subscription.ticks", ["custom"]]
+    ]);
+    expect(diagnostics[0].message).toContain("is not an input type");
+    expect(diagnostics[1].message).toContain("unknown type Label");
+  });
+
+  it("leaves operations with invalid arguments out of the schema", () => {
+    const helper = createHelper();
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => undefined);
+
+    helper.addQuery({ name: "byPost", type: "Post", args: [{ name: "post", type: "Post!" }], resolver });
+    helper.addMutation({ name: "tag", outputType: "Post", args: [{ name: "label", type: "Label" }], resolver });
+    helper.addQuery({ name: "postCount", type: "Int", args: [{ name: "status", type: "PostStatus" }], resolver });
+
+    const { typeDefs, resolvers } = helper.getSchema() as { typeDefs: string, resolvers: Record<string, any> };
+    const schema = makeExecutableSchema({ typeDefs, resolvers });
+
+    expect(Object.keys(schema.getQueryType()!.getFields())).toContain("postCount");
+    expect(schema.getQueryType()!.getFields().byPost).toBeUndefined();
+    expect(schema.getMutationType()!.getFields().tag).toBeUndefined();
+    expect(resolvers.Query.byPost).toBeUndefined();
+    expect(warn).toHaveBeenCalledTimes(2);
+    warn.mockRestore();
+  });
+
+  it("does not generate the schema when operations are registered", () => {
+    const helper = createHelper();
+    const generateTypeDefs = vi.spyOn(helper as any, "generateTypeDefs");
+
+    for (let index = 0; index < 5; index++) {
+      helper.addQuery({ name: `query${index}`, type: "Post", args: [{ name: "id", type: "ID!" }], resolver });
+    }
+
+    expect(generateTypeDefs).not.toHaveBeenCalled();
+  });
+
+  it("registers the same collection items once", () => {
+    const helper = createHelper();
+    const query = { name: "ping", type: "String", resolver };
+    const resolvers = { Query: { ping: resolver } };
+    const typeDefs = "type Stats { posts: Int }";
+
+    // Коллекции своего приложения приходят повторно из общего хранилища
+    for (let pass = 0; pass < 2; pass++) {
+      helper.addQuery(query, "app-graphql");
+      helper.addResolver(resolvers, "app-graphql");
+      helper.addType(typeDefs, "app-graphql");
+    }
+
+    expect(helper.validateSchema()).toEqual([]);
+    expect(helper.getSchema().typeDefs.match(/ping: String/g)).toHaveLength(1);
+  });
+
+  it("attributes every generated type to the app of the model", () => {
+    const helper = createHelper();
+    helper.addType("input PostFilter { title: String }\nenum PostStatus { DRAFT }", "app-reports");
+
+    const diagnostics = helper.validateSchema().filter(diagnostic => diagnostic.code === "DUPLICATE_TYPE");
+
+    expect(diagnostics.map(({ coordinate, sources }) => [coordinate, sources])).toEqual([
+      ["PostFilter", ["app-blog", "app-reports"]],
+      ["PostStatus", ["app-blog", "app-reports"]]
+    ]);
+  });
+});
@@ -0,0 +1,98 @@
+import "reflect-metadata";
+import { describe, it, expect, beforeEach } from "vitest";
+import { Sequelize, DataTypes, Model } from "sequelize";
+import { GQLModel } from "../src/decorators";
+import { TestSchema, createTestSchema } from "./helpers";
+
+function defineModels(sequelize: Sequelize) {
+  class Document extends Model {}
+  Document.init({ title: { type: DataTypes.STRING, allowNull: false } }, { sequelize, modelName: "Document", paranoid: true });
+
+  class Comment extends Model {}
+  Comment.init({ text: { type: DataTypes.STRING, allowNull: false } }, { sequelize, modelName: "Comment", paranoid: true });
+
+  class Tag extends Model {}
+  Tag.init({ name: { type: DataTypes.STRING, allowNull: false } }, { sequelize, modelName: "Tag" });
+
+  // Удалить может любой пользователь, вернуть или стереть навсегда только администратор
+  GQLModel({
+    access: { delete: ["user", "admin"], restore: ["admin"], hardDelete: ["admin"] },
+    softDelete: { exposeDeletedAt: true }
+  })(Document);
+  GQLModel()(Comment);
+  GQLModel()(Tag);
+
+  return { Document, Comment, Tag };
+}
+
+async function seed({ Document }: ReturnType<typeof defineModels>) {
+  await Document.bulkCreate([{ title: "draft" }, { title: "report" }]);
+}
+
+const user = { id: 1, role: "user" };
+const admin = { id: 2, role: "admin" };
+
+const titles = (rows: any[]) => rows.map(row => row.title);
+
+describe("Soft delete", () => {
+  let fixture: TestSchema<ReturnType<typeof defineModels>>;
+
+  beforeEach(async () => {
+    fixture = await createTestSchema(defineModels);
+    await seed(fixture);
+  });
+
+  it("generates restore and hard delete only for paranoid models", () => {
+    const mutations = fixture.schema.getMutationType()!.getFields();
+    const documentList = fixture.schema.getQueryType()!.getFields().documentList;
+
+    expect(mutations.restoreDocument).toBeDefined();
+    expect(mutations.hardDeleteComment).toBeDefined();
+    expect(mutations.restoreTag).toBeUndefined();
+    expect(documentList.args.map(arg => arg.name)).toEqual(expect.arrayContaining(["withDeleted", "onlyDeleted"]));
+    // deletedAt виден только при exposeDeletedAt
+    expect(fixture.schema.getType("Document")!.toConfig()).toHaveProperty("fields.deletedAt");
+    expect(fixture.schema.getType("Comment")!.toConfig()).not.toHaveProperty("fields.deletedAt");
+  });
+
+  it("hides soft deleted rows unless withDeleted or onlyDeleted is passed", async () => {
+    const deleted = await fixture.run(`mutation { deleteDocument(id: 1) }`, user);
+    expect(deleted.errors).toBeUndefined();
+    expect(deleted.data.deleteDocument).toBe(true);
+
+    const result = await fixture.run(`{
+      active: documentList { title }
+      all: documentList(withDeleted: true) { title deletedAt }
+      trash: documentList(onlyDeleted: true) { title }
+      hidden: document(id: 1) { title }
+      found: document(id: 1, withDeleted: true) { title }
+    }`);
+
+    expect(result.errors).toBeUndefined();
+    expect(titles(result.data.active)).toEqual(["report"]);
+    expect(titles(result.data.all)).toEqual(["draft", "report"]);
+    expect(result.data.all[0].deletedAt).not.toBeNull();
+    expect(result.data.all[1].deletedAt).toBeNull();
+    expect(titles(result.data.trash)).toEqual(["draft"]);
+    expect(result.data.hidden).toBeNull();
+    expect(result.data.found).toEqual({ title: "draft" });
+  });
+
+  it("checks restore and hard delete as separate operations", async () => {
+    await fixture.run(`mutation { deleteDocument(id: 1) }`, user);
+
+    const restoreDenied = await fixture.request(`mutation { restoreDocument(id: 1) { title } }`, user);
+    const hardDeleteDenied = await fixture.request(`mutation { hardDeleteDocument(id: 2) }`, user);
+    expect([restoreDenied.status, restoreDenied.body.errors![0].extensions!.code]).toEqual([403, "FORBIDDEN"]);
+    expect([hardDeleteDenied.status, hardDeleteDenied.body.errors![0].extensions!.code]).toEqual([403, "FORBIDDEN"]);
+
+    const restored = await fixture.run(`mutation { restoreDocument(id: 1) { title deletedAt } }`, admin);
+    expect(restored.errors).toBeUndefined();
+    expect(restored.data.restoreDocument).toEqual({ title: "draft", deletedAt: null });
+
+    const removed = await fixture.run(`mutation { hardDeleteDocument(id: 2) }`, admin);
+    expect(removed.errors).toBeUndefined();
+    expect(removed.data.hardDeleteDocument).toBe(true);
+    expect(titles(await fixture.Document.findAll({ paranoid: false }))).toEqual(["draft"]);
+  });
+});
@@ -0,0 +1,148 @@
+import "reflect-metadata";
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { createServer } from "http";
+import { AddressInfo } from "net";
+import WebSocket from "ws";
+import { createClient, Client } from "graphql-ws";
+import { Sequelize, DataTypes, Model } from "sequelize";
+import type { GraphQLSchema } from "graphql";
+import { InMemoryPubSub } from "../src/lib/PubSub";
+import { SubscriptionServer, SubscriptionRequest } from "../src/lib/SubscriptionServer";
+import { GQLModel } from "../src/decorators";
+import { TestSchema, createTestSchema } from "./helpers";
+
+const USERS: Record<string, any> = {
+  alice: { id: 1, role: "user" },
+  bob: { id: 2, role: "user" },
+  root: { id: 3, role: "admin" }
+};
+
+/**
+ * PubSub that reports active subscriptions, events are published only after the client is subscribed
+ */
+class ObservedPubSub extends InMemoryPubSub {
+  private waiters: Array<() => void> = [];
+
+  async subscribe(triggerName: string, onMessage: (payload: any) => void): Promise<number> {
+    const subId = await super.subscribe(triggerName, onMessage);
+    this.waiters.splice(0).forEach((resolve) => resolve());
+    return subId;
+  }
+
+  nextSubscription(): Promise<void> {
+    return new Promise((resolve) => this.waiters.push(resolve));
+  }
+}
+
+function defineModels(sequelize: Sequelize) {
+  class Note extends Model {}
+  Note.init({
+    title: { type: DataTypes.STRING, allowNull: false },
+    ownerId: { type: DataTypes.INTEGER, allowNull: false }
+  }, { sequelize, modelName: "Note" });
+
+  GQLModel({ access: { query: ["owner", "admin"], owner: "ownerId" } })(Note);
+
+  return { Note };
+}
+
+async function listen(schema: GraphQLSchema, pubsub: ObservedPubSub) {
+  const httpServer = createServer();
+  const subscriptionServer = new SubscriptionServer({
+    schema,
+    path: "/graphql",
+    keepAlive: 0,
+    onConnect: (request: SubscriptionRequest) => {
+      request.user = USERS[String(request.connectionParams?.token)];
+      return !!request.user;
+    },
+    context: (request: SubscriptionRequest) => ({
+      user: request.user || null,
+      req: request,
+      connectionParams: request.connectionParams,
+      pubsub
+    })
+  });
+  subscriptionServer.attach(httpServer);
+  await new Promise<void>((resolve) => httpServer.listen(0, "127.0.0.1", resolve));
+
+  const url = `ws://127.0.0.1:${(httpServer.address() as AddressInfo).port}/graphql`;
+  return { httpServer, subscriptionServer, url };
+}
+
+describe("Subscriptions", () => {
+  let fixture: TestSchema<ReturnType<typeof defineModels>>;
+  let server: Awaited<ReturnType<typeof listen>>;
+  let pubsub: ObservedPubSub;
+  const clients: Client[] = [];
+
+  const connect = (token?: string) => {
+    const client = createClient({ url: server.url, webSocketImpl: WebSocket, connectionParams: { token }, retryAttempts: 0 });
+    clients.push(client);
+    return client;
+  };
+
+  // Собирает первые `count` событий подписки
+  const collect = async (client: Client, count: number) => {
+    const subscribed = pubsub.nextSubscription();
+    const iterator = client.iterate<any>({ query: "subscription { noteCreated { title ownerId } }" });
+    const events = (async () => {
+      const titles: string[] = [];
+      for await (const result of iterator) {
+        titles.push(result.data.noteCreated.title);
+        if (titles.length === count) {
+          break;
+        }
+      }
+      return titles;
+    })();
+
+    // Промис событий оборачивается, иначе async функция дождалась бы его
+    await subscribed;
+    return { events };
+  };
+
+  beforeEach(async () => {
+    pubsub = new ObservedPubSub();
+    fixture = await createTestSchema(defineModels, { pubsub });
+    server = await listen(fixture.schema, pubsub);
+  });
+
+  afterEach(async () => {
+    await Promise.all(clients.splice(0).map((client) => client.dispose()));
+    await server.subscriptionServer.close();
+    await new Promise((resolve) => server.httpServer.close(resolve));
+    await fixture.sequelize.close();
+  });
+
+  it("filters events by the user authenticated from connectionParams", async () => {
+    const { events: aliceEvents } = await collect(connect("alice"), 1);
+    const { events: adminEvents } = await collect(connect("root"), 2);
+
+    await fixture.run(`mutation { createNote(input: { title: "Bob's note", ownerId: 2 }) { id } }`, USERS.bob);
+    await fixture.run(`mutation { createNote(input: { title: "Alice's note", ownerId: 1 }) { id } }`, USERS.alice);
+
+    expect(await aliceEvents).toEqual(["Alice's note"]);
+    expect(await adminEvents).toEqual(["Bob's note", "Alice's note"]);
+  });
+
+  it("rejects the connection when onConnect returns false", async () => {
+    const iterator = connect("mallory").iterate({ query: "subscription { noteCreated { title } }" });
+
+    await expect(iterator.next()).rejects.toMatchObject({ code: 4403 });
+  });
+
+  it("publishes changes made outside of mutations only when publish hooks are enabled", async () => {
+    const { Note, helper } = fixture;
+    const titles: string[] = [];
+    await pubsub.subscribe("Note.created", (row) => {
+      titles.push(row.title);
+    });
+
+    await Note.create({ title: "Before", ownerId: 1 });
+    helper.enablePublishHooks();
+    await Note.create({ title: "After", ownerId: 1 });
+
+    expect(titles).toEqual(["After"]);
+  });
+});
@@ -0,0 +1,201 @@
+import "reflect-metadata";
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { Sequelize, DataTypes, Model } from "sequelize";
+import { TransactionManager } from "../src/lib/TransactionManager";
+import { InMemoryPubSub } from "../src/lib/PubSub";
+import { GQLModel } from "../src/decorators";
+import { TestSchema, createTestSchema } from "./helpers";
+
+function defineModels(sequelize: Sequelize) {
+  class Author extends Model {}
+  Author.init({ name: { type: DataTypes.STRING, allowNull: false } }, { sequelize, modelName: "Author" });
+
+  class Book extends Model {}
+  Book.init({ title: { type: DataTypes.STRING, allowNull: false } }, { sequelize, modelName: "Book" });
+
+  Book.belongsTo(Author, { as: "author", foreignKey: "authorId" });
+  Author.hasMany(Book, { as: "books", foreignKey: "authorId" });
+
+  GQLModel()(Author);
+  GQLModel()(Book);
+
+  return { Author, Book };
+}
+
+describe("TransactionManager", () => {
+  let fixture: TestSchema<ReturnType<typeof defineModels>>;
+  let manager: TransactionManager;
+  let mutations: any;
+  let pubsub: InMemoryPubSub;
+
+  beforeEach(async () => {
+    pubsub = new InMemoryPubSub();
+    fixture = await createTestSchema(defineModels, { transactions: "mutation", pubsub });
+    manager = fixture.transactionManager;
+    mutations = fixture.resolvers.Mutation;
+  });
+
+  it("commits mutation when all resolvers succeed", async () => {
+    const { Author, Book } = fixture;
+    const context: any = {};
+
+    await manager.run(context, async () => {
+      const author = await mutations.createAuthor(null, { input: { name: "Tolstoy" } }, context);
+      await mutations.createBook(null, { input: { title: "War and Peace", authorId: author.id } }, context);
+    });
+
+    expect(await Author.count()).toBe(1);
+    expect(await Book.count()).toBe(1);
+    expect(context.transaction).toBeUndefined();
+  });
+
+  it("rolls back earlier writes when a later resolver throws", async () => {
+    const { Author, Book } = fixture;
+    const context: any = {};
+
+    await expect(manager.run(context, async () => {
+      await mutations.createAuthor(null, { input: { name: "Tolstoy" } }, context);
+      await mutations.createBook(null, { input: { title: "Lost", author: { connect: "999" } } }, context);
+    })).rejects.toThrow("Author not found: 999");
+
+    expect(await Author.count()).toBe(0);
+    expect(await Book.count()).toBe(0);
+  });
+
+  it("rolls back and returns the result when it contains errors", async () => {
+    const { Author } = fixture;
+    const context: any = {};
+
+    const result = await manager.run(
+      context,
+      async () => {
+        await mutations.createAuthor(null, { input: { name: "Tolstoy" } }, context);
+        return { errors: [{ message: "Access denied" }] };
+      },
+      (value) => value.errors.length > 0
+    );
+
+    expect(result.errors).toHaveLength(1);
+    expect(await Author.count()).toBe(0);
+  });
+
+  it("passes the operation transaction to generated resolvers without CLS", async () => {
+    const { Author } = fixture;
+    const author: any = await Author.create({ name: "Tolstoy" });
+    const context: any = {};
+
+    expect((Sequelize as any)._cls).toBeUndefined();
+    await expect(manager.run(context, async () => {
+      await mutations.deleteAuthor(null, { id: author.id }, context);
+      throw new Error("Failed");
+    })).rejects.toThrow("Failed");
+
+    expect(await Author.count()).toBe(1);
+  });
+
+  it("propagates the transaction to Sequelize calls through opt-in CLS", async () => {
+    const { sequelize, Author } = fixture;
+    const manager = new TransactionManager(sequelize, { mode: "mutation", cls: true });
+    const context: any = {};
+
+    try {
+      // Кастомный резолвер не передает transaction явно
+      await expect(manager.run(context, async () => {
+        await Author.create({ name: "Tolstoy" });
+        throw new Error("Custom resolver failed");
+      })).rejects.toThrow("Custom resolver failed");
+
+      expect(await Author.count()).toBe(0);
+    } finally {
+      // Пространство имен CLS общее для процесса
+      (Sequelize as any)._cls = undefined;
+    }
+  });
+
+  it("keeps the CLS namespace registered by the application", () => {
+    const namespace = { get: () => undefined };
+    const SequelizeClass = { _cls: namespace, useCLS: vi.fn() };
+    TransactionManager.enableCLS({ constructor: SequelizeClass });
+
+    expect(SequelizeClass.useCLS).not.toHaveBeenCalled();
+    expect(SequelizeClass._cls).toBe(namespace);
+  });
+
+  it("passes the result of a rolled back transaction through onRollback", async () => {
+    const context: any = {};
+
+    const result = await manager.run<{ data: any; errors: any[] }>(
+      context,
+      async () => ({ data: { createAuthor: await mutations.createAuthor(null, { input: { name: "Tolstoy" } }, context) }, errors: [{}] }),
+      (value) => value.errors.length > 0,
+      (value) => ({ ...value, data: null })
+    );
+
+    expect(result.data).toBeNull();
+  });
+
+  it("publishes subscription events only after commit", async () => {
+    const events: any[] = [];
+    await pubsub.subscribe("Author.created", (payload) => {
+      events.push(payload);
+    });
+
+    const context: any = {};
+    await expect(manager.run(context, async () => {
+      await mutations.createAuthor(null, { input: { name: "Rolled back" } }, context);
+      throw new Error("Failed");
+    })).rejects.toThrow("Failed");
+
+    expect(events).toHaveLength(0);
+
+    const commitContext: any = {};
+    await manager.run(commitContext, () => mutations.createAuthor(null, { input: { name: "Committed" } }, commitContext));
+
+    expect(events.map((event) => event.name)).toEqual(["Committed"]);
+  });
+
+  it("reads nested associations back through the mutation transaction", async () => {
+    // В файловой базе чтение вне транзакции идет через другое соединение и не видит новых строк
+    const directory = mkdtempSync(join(tmpdir(), "graphql-transactions-"));
+    const fileFixture = await createTestSchema(defineModels, { storage: join(directory, "test.sqlite"), transactions: "mutation" });
+
+    try {
+      const result = await fileFixture.run(`mutation {
+        createAuthor(input: { name: "Tolstoy", books: { create: [{ title: "War and Peace" }, { title: "Resurrection" }] } }) {
+          name
+          books { title author { name } }
+        }
+      }`);
+
+      expect(result.errors).toBeUndefined();
+      expect(result.data.createAuthor).toEqual({
+        name: "Tolstoy",
+        books: [{ title: "War and Peace", author: { name: "Tolstoy" } }, { title: "Resurrection", author: { name: "Tolstoy" } }]
+      });
+    } finally {
+      await fileFixture.sequelize.close();
+      rmSync(directory, { recursive: true, force: true });
+    }
+  });
+
+  it("wraps operations according to the mode", async () => {
+    const { sequelize } = fixture;
+    const requestManager = new TransactionManager(sequelize, { mode: "request" });
+    const noneManager = new TransactionManager(sequelize);
+
+    const mutationType = manager.getOperationType("mutation { createAuthor(input: {}) { id } }");
+    const queryType = manager.getOperationType("query A { authorList { id } } mutation B { deleteAuthor(id: \"1\") }", "A");
+
+    expect(mutationType).toBe("mutation");
+    expect(queryType).toBe("query");
+    expect(manager.getOperationType("{ broken")).toBeNull();
+
+    expect(manager.shouldWrap(mutationType)).toBe(true);
+    expect(manager.shouldWrap(queryType)).toBe(false);
+    expect(requestManager.shouldWrap(queryType)).toBe(true);
+    expect(noneManager.shouldWrap(mutationType)).toBe(false);
+  });
+});